@@ -1,35 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { View, Text } from 'react-native';
+import { View, Text, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import RosterScreen from './screens/RosterScreen';
 import GameScreen from './screens/GameScreen';
 import StatsScreen from './screens/StatsScreen';
 import TeamsScreen from './screens/TeamsScreen';
+import HistoryScreen from './screens/HistoryScreen';
 
-import { Game, Player, Period, LineupSuggestion, GameSettings, Team, CoachProfile } from './types';
+import { Game, Player, Period, LineupSuggestion, GameSettings, Team, CoachProfile, LineupStrategyId } from './types';
 import { GameManager } from './utils/gameManager';
+import { StorageRepository, GameCheckpoint } from './utils/storage';
+import { AsyncStorageBackend } from './utils/asyncStorageBackend';
+import { UndoHistory, GameSnapshot, createSnapshot } from './utils/undoHistory';
+import { DEFAULT_LINEUP_STRATEGY } from './utils/lineupStrategies';
+import { advanceSeed } from './utils/random';
+import { BackupManager, CoachBackup, RestoreMode, RestorePreview, parseBackup, describeRestorePreview } from './utils/backup';
+import { shareBackupFile, pickBackupFile } from './utils/backupFile';
+import { SeasonLedger, buildSeasonLedger, getSeasonCarryover } from './utils/seasonLedger';
+import { DEFAULT_CATCH_UP_POLICY } from './utils/catchUpPolicy';
+import { DEFAULT_FOUL_LIMIT, getFoulLimit } from './utils/fouls';
 import TeamEditModal from './components/TeamEditModal';
 
 const Tab = createBottomTabNavigator();
 
+const repository = new StorageRepository(new AsyncStorageBackend());
+const backupManager = new BackupManager(repository);
+
 // Sample roster data
 const createSampleRoster = (): Player[] => [
-  { id: '1', name: 'Alex Johnson', jerseyNumber: 23, skillLevel: 4, position: 'Guard', isPresent: false, totalPlayingTime: 0 },
-  { id: '2', name: 'Marcus Williams', jerseyNumber: 15, skillLevel: 5, position: 'Forward', isPresent: false, totalPlayingTime: 0 },
-  { id: '3', name: 'Tyler Brown', jerseyNumber: 8, skillLevel: 3, position: 'Center', isPresent: false, totalPlayingTime: 0 },
-  { id: '4', name: 'Jamie Davis', jerseyNumber: 12, skillLevel: 4, position: 'Guard', isPresent: false, totalPlayingTime: 0 },
-  { id: '5', name: 'Chris Miller', jerseyNumber: 31, skillLevel: 3, position: 'Forward', isPresent: false, totalPlayingTime: 0 },
-  { id: '6', name: 'Jordan Wilson', jerseyNumber: 7, skillLevel: 4, position: 'Guard', isPresent: false, totalPlayingTime: 0 },
-  { id: '7', name: 'Casey Taylor', jerseyNumber: 20, skillLevel: 2, position: 'Center', isPresent: false, totalPlayingTime: 0 },
-  { id: '8', name: 'Ryan Anderson', jerseyNumber: 5, skillLevel: 5, position: 'Forward', isPresent: false, totalPlayingTime: 0 },
-  { id: '9', name: 'Sam Thompson', jerseyNumber: 11, skillLevel: 3, position: 'Guard', isPresent: false, totalPlayingTime: 0 },
-  { id: '10', name: 'Taylor Garcia', jerseyNumber: 33, skillLevel: 4, position: 'Center', isPresent: false, totalPlayingTime: 0 },
-  { id: '11', name: 'Morgan Lee', jerseyNumber: 9, skillLevel: 2, position: 'Any', isPresent: false, totalPlayingTime: 0 },
-  { id: '12', name: 'Drew Martinez', jerseyNumber: 14, skillLevel: 3, position: 'Any', isPresent: false, totalPlayingTime: 0 },
+  { id: '1', name: 'Alex Johnson', jerseyNumber: 23, skillLevel: 4, positions: ['Guard'], isPresent: false, totalPlayingTime: 0 },
+  { id: '2', name: 'Marcus Williams', jerseyNumber: 15, skillLevel: 5, positions: ['Forward'], isPresent: false, totalPlayingTime: 0 },
+  { id: '3', name: 'Tyler Brown', jerseyNumber: 8, skillLevel: 3, positions: ['Center'], isPresent: false, totalPlayingTime: 0 },
+  { id: '4', name: 'Jamie Davis', jerseyNumber: 12, skillLevel: 4, positions: ['Guard', 'Forward'], isPresent: false, totalPlayingTime: 0 },
+  { id: '5', name: 'Chris Miller', jerseyNumber: 31, skillLevel: 3, positions: ['Forward'], isPresent: false, totalPlayingTime: 0 },
+  { id: '6', name: 'Jordan Wilson', jerseyNumber: 7, skillLevel: 4, positions: ['Guard'], isPresent: false, totalPlayingTime: 0 },
+  { id: '7', name: 'Casey Taylor', jerseyNumber: 20, skillLevel: 2, positions: ['Center'], isPresent: false, totalPlayingTime: 0 },
+  { id: '8', name: 'Ryan Anderson', jerseyNumber: 5, skillLevel: 5, positions: ['Forward'], isPresent: false, totalPlayingTime: 0 },
+  { id: '9', name: 'Sam Thompson', jerseyNumber: 11, skillLevel: 3, positions: ['Guard'], isPresent: false, totalPlayingTime: 0 },
+  { id: '10', name: 'Taylor Garcia', jerseyNumber: 33, skillLevel: 4, positions: ['Center', 'Forward'], isPresent: false, totalPlayingTime: 0 },
+  { id: '11', name: 'Morgan Lee', jerseyNumber: 9, skillLevel: 2, positions: ['Any'], isPresent: false, totalPlayingTime: 0 },
+  { id: '12', name: 'Drew Martinez', jerseyNumber: 14, skillLevel: 3, positions: ['Any'], isPresent: false, totalPlayingTime: 0 },
 ];
 
 const defaultGameSettings: GameSettings = {
@@ -65,7 +79,7 @@ export default function App() {
   const activeTeam = coachProfile.teams.find(t => t.id === coachProfile.activeTeamId) || coachProfile.teams[0];
 
   const [game, setGame] = useState<Game>({
-    id: 'game-1',
+    id: `game-${Date.now()}`,
     teamId: activeTeam?.id || 'team-1',
     date: new Date(),
     settings: defaultGameSettings,
@@ -77,19 +91,131 @@ export default function App() {
   const [gameManager, setGameManager] = useState<GameManager>(new GameManager(game));
   const [currentPeriod, setCurrentPeriod] = useState<Period | null>(null);
   const [lineupSuggestion, setLineupSuggestion] = useState<LineupSuggestion | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [canSave, setCanSave] = useState(false); // only after a successful load, so stored data is never replaced by defaults
+  const [showRosterFromTeams, setShowRosterFromTeams] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [gameHistory, setGameHistory] = useState<Game[]>([]);
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<GameCheckpoint | null>(null);
+  const [seasonLedger, setSeasonLedger] = useState<SeasonLedger>({});
+  const [historyVersion, setHistoryVersion] = useState(0); // bumped whenever archived games change
+  const undoHistory = useRef(new UndoHistory());
+  const saveFailureShown = useRef(false); // saves run on every change, so a failing save is reported once
+
+  const reportSaveFailure = (error: unknown) => {
+    if (saveFailureShown.current) return;
+    saveFailureShown.current = true;
+    Alert.alert('Save Failed', error instanceof Error ? error.message : 'Changes could not be saved on this device');
+  };
 
   useEffect(() => {
     setGameManager(new GameManager(game));
   }, [game]);
 
+  // Load saved data on startup
+  useEffect(() => {
+    const loadSavedData = async () => {
+      try {
+        const [savedProfile, checkpoint] = await Promise.all([
+          repository.loadCoachProfile(),
+          repository.loadCheckpoint(),
+        ]);
+
+        if (savedProfile) {
+          setCoachProfile(savedProfile);
+
+          const savedActiveTeam = savedProfile.teams.find(t => t.id === savedProfile.activeTeamId) || savedProfile.teams[0];
+          if (checkpoint && checkpoint.game.teamId === savedActiveTeam?.id) {
+            setGame(checkpoint.game);
+
+            // A game that was interrupted mid-way is offered for resume instead of reopened directly
+            if (checkpoint.game.isActive && !checkpoint.game.isFinished) {
+              setResumeCheckpoint(checkpoint);
+            }
+          } else if (savedActiveTeam) {
+            setGame(prev => ({
+              ...prev,
+              teamId: savedActiveTeam.id,
+              roster: savedActiveTeam.players,
+              settings: {
+                ...prev.settings,
+                lineupStrategy: savedActiveTeam.lineupStrategy,
+                maxConsecutiveBench: savedActiveTeam.rotationLimits?.maxConsecutiveBench,
+                maxConsecutivePlay: savedActiveTeam.rotationLimits?.maxConsecutivePlay,
+                payDownSeasonDebt: savedActiveTeam.payDownSeasonDebt,
+                catchUpPolicy: savedActiveTeam.catchUpPolicy,
+                segmentsCount: savedActiveTeam.segmentsCount,
+                foulLimit: savedActiveTeam.foulLimit,
+              },
+              pairingRules: savedActiveTeam.pairingRules,
+              positionRules: savedActiveTeam.positionRules,
+              leagueRules: savedActiveTeam.leagueRules,
+              periods: [],
+              isActive: false,
+            }));
+          }
+        }
+        setCanSave(true);
+      } catch (error) {
+        if (repository.isReadOnly) {
+          Alert.alert('Update Required', 'Your teams and games were saved by a newer version of the app. Update the app to use them; nothing will be saved until then.');
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Saved teams and games could not be loaded';
+        Alert.alert('Load Failed', `${message}\n\nChanges will not be saved so the stored teams and games are kept.`);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadSavedData();
+  }, []);
+
+  // Save on every change once the saved data has been loaded
+  useEffect(() => {
+    if (!canSave) return;
+    repository.saveCoachProfile(coachProfile).catch(reportSaveFailure);
+  }, [coachProfile, canSave]);
+
+  // Checkpoint the game with its open period and pending suggestion so it can be resumed.
+  // While a resume offer is pending the stored checkpoint is left untouched.
+  useEffect(() => {
+    if (!canSave || resumeCheckpoint) return;
+    repository.saveCheckpoint({
+      game,
+      currentPeriodId: currentPeriod?.id || null,
+      lineupSuggestion,
+      savedAt: new Date(),
+    }).catch(reportSaveFailure);
+  }, [game, currentPeriod, lineupSuggestion, canSave, resumeCheckpoint]);
+
+  // The season ledger comes from the team's archived games
+  useEffect(() => {
+    if (!isLoaded) return;
+    repository.loadGameHistory(game.teamId)
+      .then(history => setSeasonLedger(buildSeasonLedger(history)))
+      .catch(() => setSeasonLedger({})); // without past games there is no debt to carry
+  }, [game.teamId, historyVersion, isLoaded]);
+
   const handlePlayerToggle = (playerId: string, isPresent: boolean) => {
-    const updatedRoster = game.roster.map(player =>
-      player.id === playerId ? { ...player, isPresent } : player
-    );
+    if (game.isFinished) return;
 
-    setGame(prev => ({
+    const player = game.roster.find(p => p.id === playerId);
+    recordUndo(`Mark ${player?.name || 'player'} ${isPresent ? 'present' : 'absent'}`);
+
+    // Arriving after tip-off goes through the catch-up policy
+    if (game.isActive && isPresent && !player?.isPresent) {
+      gameManager.addLatePlayer(playerId);
+    } else {
+      gameManager.markPlayerPresent(playerId, isPresent);
+    }
+
+    setGame(prev => replanRotation({
       ...prev,
-      roster: updatedRoster,
+      roster: [...gameManager['game'].roster],
+      attendance: gameManager['game'].attendance,
+      events: gameManager['game'].events,
     }));
   };
 
@@ -119,6 +245,18 @@ export default function App() {
     updateActiveTeamPlayers(updatedRoster);
   };
 
+  const handlePlayersImport = (importedPlayers: Player[], replaceRoster: boolean) => {
+    const updatedRoster = replaceRoster ? importedPlayers : [...game.roster, ...importedPlayers];
+
+    setGame(prev => ({
+      ...prev,
+      roster: updatedRoster,
+    }));
+
+    // Also update the team's player list
+    updateActiveTeamPlayers(updatedRoster);
+  };
+
   const handlePlayerDelete = (playerId: string) => {
     const updatedRoster = game.roster.filter(player => player.id !== playerId);
 
@@ -143,20 +281,146 @@ export default function App() {
     }));
   };
 
-  const handleTeamSelect = (team: Team) => {
-    setCoachProfile(prev => ({
-      ...prev,
-      activeTeamId: team.id,
-    }));
+  // Game history
+  const archiveGame = (gameToArchive: Game) => {
+    // Only finished games where at least one period was played are kept; an abandoned game would skew the season ledger
+    if (!canSave || !gameToArchive.isFinished || !gameToArchive.periods.some(p => p.isCompleted)) return;
+
+    repository.archiveGame(gameToArchive)
+      .then(() => setHistoryVersion(version => version + 1))
+      .catch(error => {
+        Alert.alert('Archive Failed', error instanceof Error ? error.message : 'The finished game could not be added to history');
+      });
+  };
+
+  // The new game takes the team's strategy and pairing rules as they are now.
+  // The game being replaced is archived if it was finished, unless its team is gone.
+  const startFreshGame = (team: Team, roster: Player[] = team.players, archivePrevious: boolean = true) => {
+    if (archivePrevious) {
+      archiveGame(game);
+    }
+    setResumeCheckpoint(null);
+    clearUndoHistory();
 
-    // Update game with new team's roster
     setGame(prev => ({
       ...prev,
+      id: `game-${Date.now()}`,
       teamId: team.id,
-      roster: team.players,
+      date: new Date(),
+      roster,
+      settings: {
+        ...prev.settings,
+        lineupStrategy: team.lineupStrategy,
+        maxConsecutiveBench: team.rotationLimits?.maxConsecutiveBench,
+        maxConsecutivePlay: team.rotationLimits?.maxConsecutivePlay,
+        payDownSeasonDebt: team.payDownSeasonDebt,
+        catchUpPolicy: team.catchUpPolicy,
+        segmentsCount: team.segmentsCount,
+        foulLimit: team.foulLimit,
+      },
+      pairingRules: team.pairingRules,
+      positionRules: team.positionRules,
+      leagueRules: team.leagueRules,
+      seasonCarryover: undefined,
+      attendance: undefined,
+      fouls: undefined,
       periods: [],
       isActive: false,
+      isFinished: false,
+      endedAt: undefined,
+      rotationPlan: undefined,
+      events: [],
     }));
+  };
+
+  const handleShowHistory = async () => {
+    try {
+      const history = await repository.loadGameHistory(activeTeam?.id || game.teamId);
+      setGameHistory(history);
+    } catch (error) {
+      Alert.alert('History Unavailable', error instanceof Error ? error.message : 'Past games could not be loaded');
+      setGameHistory([]);
+    }
+    setShowHistory(true);
+  };
+
+  // Backup and restore
+  const handleBackup = async () => {
+    try {
+      // The profile is saved in an effect, so write the latest one before reading it back
+      if (canSave) {
+        await repository.saveCoachProfile(coachProfile);
+      }
+      await shareBackupFile(await backupManager.createBackup());
+    } catch (error) {
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'The backup could not be created');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (resumeCheckpoint) {
+      Alert.alert('Game In Progress', 'Resume and end the interrupted game, or discard it, before restoring a backup.');
+      return;
+    }
+
+    let backup: CoachBackup;
+    try {
+      const text = await pickBackupFile();
+      if (!text) return;
+      backup = parseBackup(text);
+    } catch (error) {
+      Alert.alert('Cannot Restore', error instanceof Error ? error.message : 'The backup could not be read');
+      return;
+    }
+
+    // Dry run both ways so the coach can see what each choice would do
+    let mergePreview: RestorePreview;
+    let replacePreview: RestorePreview;
+    try {
+      mergePreview = await backupManager.previewRestore(backup, 'merge');
+      replacePreview = await backupManager.previewRestore(backup, 'replace');
+    } catch (error) {
+      Alert.alert('Cannot Restore', error instanceof Error ? error.message : 'Saved data could not be compared with the backup');
+      return;
+    }
+
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${backup.exportedAt.toLocaleDateString()}.\n\n` +
+        `Merge: ${describeRestorePreview(mergePreview)}.\n\n` +
+        `Replace: ${describeRestorePreview(replacePreview)}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => applyRestore(backup, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => applyRestore(backup, 'replace') },
+      ]
+    );
+  };
+
+  const applyRestore = async (backup: CoachBackup, mode: RestoreMode) => {
+    try {
+      const profile = await backupManager.restore(backup, mode);
+      setCoachProfile(profile);
+      setHistoryVersion(version => version + 1);
+
+      const restoredTeam = profile.teams.find(t => t.id === profile.activeTeamId) || profile.teams[0];
+      if (restoredTeam) {
+        // A replace can remove the game's team, and its game must not be archived under it
+        startFreshGame(restoredTeam, restoredTeam.players, profile.teams.some(t => t.id === game.teamId));
+      }
+    } catch (error) {
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'The backup could not be restored');
+    }
+  };
+
+  const handleTeamSelect = (team: Team) => {
+    setCoachProfile(prev => ({
+      ...prev,
+      activeTeamId: team.id,
+    }));
+
+    // Update game with new team's roster
+    startFreshGame(team);
 
     setCurrentPeriod(null);
     setLineupSuggestion(null);
@@ -179,6 +443,46 @@ export default function App() {
         ...prev,
         teams: prev.teams.map(t => t.id === team.id ? team : t),
       }));
+
+      // A game that has not started yet follows the team's new default
+      if (team.id === game.teamId && !game.isActive && team.lineupStrategy !== editingTeam.lineupStrategy) {
+        handleLineupStrategyChange(team.lineupStrategy || DEFAULT_LINEUP_STRATEGY);
+      }
+      if (team.id === game.teamId && !game.isActive && !!team.payDownSeasonDebt !== !!editingTeam.payDownSeasonDebt) {
+        handlePayDownSeasonDebtChange(!!team.payDownSeasonDebt);
+      }
+
+      // Pairing rules, rotation limits, position and league rules, the catch-up policy, halves or quarters
+      // and the foul limit apply from the next suggestion on, even mid-game
+      if (team.id === game.teamId && !game.isFinished) {
+        const rotationLimits = {
+          maxConsecutiveBench: team.rotationLimits?.maxConsecutiveBench || 0,
+          maxConsecutivePlay: team.rotationLimits?.maxConsecutivePlay || 0,
+        };
+        if (rotationLimits.maxConsecutiveBench !== (game.settings.maxConsecutiveBench || 0) ||
+          rotationLimits.maxConsecutivePlay !== (game.settings.maxConsecutivePlay || 0)) {
+          gameManager.updateGameSettings(rotationLimits);
+        }
+        const catchUpPolicy = team.catchUpPolicy || DEFAULT_CATCH_UP_POLICY;
+        if (catchUpPolicy !== (game.settings.catchUpPolicy || DEFAULT_CATCH_UP_POLICY)) {
+          gameManager.updateGameSettings({ catchUpPolicy });
+        }
+        if ((team.segmentsCount || 1) !== (game.settings.segmentsCount || 1)) {
+          gameManager.updateGameSettings({ segmentsCount: team.segmentsCount || 1 });
+        }
+        const foulLimit = team.foulLimit ?? DEFAULT_FOUL_LIMIT;
+        if (foulLimit !== getFoulLimit(game.settings)) {
+          gameManager.updateGameSettings({ foulLimit });
+        }
+        setGame(prev => replanRotation({
+          ...prev,
+          settings: gameManager['game'].settings,
+          events: gameManager['game'].events,
+          pairingRules: team.pairingRules,
+          positionRules: team.positionRules,
+          leagueRules: team.leagueRules,
+        }));
+      }
     } else {
       // Add new team
       setCoachProfile(prev => ({
@@ -188,20 +492,22 @@ export default function App() {
       }));
 
       // Switch to new team
-      setGame(prev => ({
-        ...prev,
-        teamId: team.id,
-        roster: team.players,
-        periods: [],
-        isActive: false,
-      }));
+      startFreshGame(team);
     }
 
     setShowTeamEdit(false);
     setEditingTeam(null);
   };
 
-  const handleTeamDelete = (teamId: string) => {
+  const handleTeamDelete = async (teamId: string) => {
+    try {
+      await repository.deleteGameHistory(teamId);
+    } catch (error) {
+      Alert.alert('Delete Failed', error instanceof Error ? error.message : 'Past games for this team could not be deleted');
+    }
+
+    // The deleted team's game must not be archived again under its id
+    const archivePrevious = game.teamId !== teamId;
     const remainingTeams = coachProfile.teams.filter(t => t.id !== teamId);
 
     if (remainingTeams.length === 0) {
@@ -222,13 +528,7 @@ export default function App() {
         activeTeamId: defaultTeam.id,
       }));
 
-      setGame(prev => ({
-        ...prev,
-        teamId: defaultTeam.id,
-        roster: [],
-        periods: [],
-        isActive: false,
-      }));
+      startFreshGame(defaultTeam, defaultTeam.players, archivePrevious);
     } else {
       const newActiveTeam = remainingTeams[0];
 
@@ -239,13 +539,7 @@ export default function App() {
       }));
 
       if (teamId === coachProfile.activeTeamId) {
-        setGame(prev => ({
-          ...prev,
-          teamId: newActiveTeam.id,
-          roster: newActiveTeam.players,
-          periods: [],
-          isActive: false,
-        }));
+        startFreshGame(newActiveTeam, newActiveTeam.players, archivePrevious);
       }
     }
 
@@ -262,58 +556,377 @@ export default function App() {
     }));
   };
 
+  // Per-game lineup strategy, chosen before the game starts
+  const handleLineupStrategyChange = (lineupStrategy: LineupStrategyId) => {
+    if (game.isActive) return;
+
+    gameManager.updateGameSettings({ lineupStrategy });
+    setGame(prev => ({
+      ...prev,
+      settings: gameManager['game'].settings,
+      events: gameManager['game'].events,
+    }));
+  };
+
+  const handlePayDownSeasonDebtChange = (payDownSeasonDebt: boolean) => {
+    if (game.isActive) return;
+
+    gameManager.updateGameSettings({ payDownSeasonDebt });
+    setGame(prev => ({
+      ...prev,
+      settings: gameManager['game'].settings,
+      events: gameManager['game'].events,
+    }));
+  };
+
   const handleStartGame = () => {
-    setGame(prev => ({ ...prev, isActive: true }));
+    // The debt carried into this game is fixed at tip-off
+    gameManager.setSeasonCarryover(getSeasonCarryover(
+      seasonLedger,
+      game.roster.filter(p => p.isPresent),
+      game.settings.periodDuration
+    ));
+    gameManager.startGame();
+    setGame(prev => ({
+      ...prev,
+      isActive: true,
+      seasonCarryover: gameManager['game'].seasonCarryover,
+      attendance: gameManager['game'].attendance,
+      events: gameManager['game'].events,
+    }));
     handleGenerateLineup();
   };
 
   const handleGenerateLineup = () => {
+    if (game.isFinished) return;
+
     const suggestion = gameManager.generateNextLineup();
+    if (suggestion.players.length === 0) {
+      Alert.alert('No Lineup', 'There are no players available to put on the court.');
+      return;
+    }
     setLineupSuggestion(suggestion);
     setCurrentPeriod(null);
   };
 
-  const handleStartPeriod = (period: Period) => {
+  const handleGenerateAnotherLineup = () => {
+    if (game.isFinished || !lineupSuggestion) return;
+
+    const lineupKey = (suggestion: LineupSuggestion) => suggestion.players.map(p => p.id).sort().join(',');
+    const currentKey = lineupKey(lineupSuggestion);
+
+    // Advance the seed until the lineup changes - some rosters have only one fairest lineup
+    let seed = lineupSuggestion.seed ?? gameManager.getLineupSeed();
+    let suggestion = lineupSuggestion;
+    for (let attempt = 0; attempt < 10 && lineupKey(suggestion) === currentKey; attempt++) {
+      seed = advanceSeed(seed);
+      suggestion = gameManager.generateNextLineup(seed, false);
+    }
+
+    if (lineupKey(suggestion) === currentKey) {
+      Alert.alert('No Other Lineup', 'Any other lineup would be less fair than this one.');
+      return;
+    }
+
+    setLineupSuggestion(suggestion);
+  };
+
+  // Undo/redo for game-day actions
+  const recordUndo = (labelOrSnapshot: string | GameSnapshot) => {
+    const snapshot = typeof labelOrSnapshot === 'string'
+      ? createSnapshot(labelOrSnapshot, game, currentPeriod, lineupSuggestion)
+      : labelOrSnapshot;
+
+    undoHistory.current.record(snapshot);
+  };
+
+  const clearUndoHistory = () => {
+    undoHistory.current.clear();
+  };
+
+  const restoreSnapshot = (snapshot: GameSnapshot) => {
+    setGame(snapshot.game);
+    setCurrentPeriod(snapshot.game.periods.find(p => p.id === snapshot.currentPeriodId) || null);
+    setLineupSuggestion(snapshot.lineupSuggestion);
+  };
+
+  const handleUndo = () => {
+    const previous = undoHistory.current.undo(createSnapshot('', game, currentPeriod, lineupSuggestion));
+    if (previous) {
+      restoreSnapshot(previous);
+    }
+  };
+
+  const handleRedo = () => {
+    const next = undoHistory.current.redo(createSnapshot('', game, currentPeriod, lineupSuggestion));
+    if (next) {
+      restoreSnapshot(next);
+    }
+  };
+
+  const handleAddOvertime = () => {
+    if (game.isFinished || currentPeriod) return;
+
+    const period = gameManager.addOvertimePeriod();
+    if (!period) return;
+
+    recordUndo(`Add overtime period ${period.number}`);
+    gameManager.addPeriod(period);
+
     setGame(prev => ({
       ...prev,
-      periods: [...prev.periods, period],
+      periods: gameManager['game'].periods,
+      events: gameManager['game'].events,
     }));
     setCurrentPeriod(period);
     setLineupSuggestion(null);
   };
 
+  // Full-game rotation plan
+  const handlePlanRotation = () => {
+    if (game.isFinished) return;
+
+    const plan = gameManager.planRotation();
+    setGame(prev => ({ ...prev, rotationPlan: plan }));
+
+    if (!currentPeriod) {
+      setLineupSuggestion(gameManager.generateNextLineup());
+    }
+  };
+
+  const handleClearRotationPlan = () => {
+    setGame(prev => ({ ...prev, rotationPlan: undefined }));
+  };
+
+  // Keeps an existing plan in step with attendance changes and lineup overrides
+  const replanRotation = (updatedGame: Game): Game => {
+    if (!updatedGame.rotationPlan) return updatedGame;
+
+    new GameManager(updatedGame).planRotation();
+    return updatedGame;
+  };
+
+  const handleStartPeriod = (period: Period) => {
+    if (game.isFinished) return;
+
+    recordUndo(`Start period ${period.number}`);
+    gameManager.addPeriod(period);
+
+    setGame(prev => {
+      const updatedGame = {
+        ...prev,
+        periods: gameManager['game'].periods,
+        events: gameManager['game'].events,
+      };
+      // Starting a different lineup than planned re-plans the rest of the game
+      return gameManager.isFollowingPlan(period) ? updatedGame : replanRotation(updatedGame);
+    });
+    setCurrentPeriod(period);
+    setLineupSuggestion(null);
+  };
+
   const handleCompletePeriod = (periodId: string) => {
+    const period = game.periods.find(p => p.id === periodId);
+    recordUndo(`Complete period ${period?.number || ''}`.trim());
+
     gameManager.completePeriod(periodId);
 
     setGame(prev => ({
       ...prev,
       roster: [...gameManager['game'].roster],
-      periods: prev.periods.map(p =>
-        p.id === periodId ? { ...p, isCompleted: true, actualDuration: prev.settings.periodDuration } : p
-      ),
+      periods: gameManager['game'].periods.map(p => ({ ...p })),
+      events: gameManager['game'].events,
     }));
 
     setCurrentPeriod(null);
     setLineupSuggestion(null);
   };
 
+  const updatePeriodsFromManager = () => {
+    const periods = gameManager['game'].periods.map(p => ({ ...p }));
+
+    setGame(prev => ({
+      ...prev,
+      periods,
+      events: gameManager['game'].events,
+    }));
+
+    setCurrentPeriod(prev => prev ? periods.find(p => p.id === prev.id) || null : null);
+  };
+
+  const handleStartClock = () => {
+    if (!currentPeriod) return;
+
+    if (gameManager.startPeriod(currentPeriod.id)) {
+      updatePeriodsFromManager();
+    }
+  };
+
+  const handlePauseClock = () => {
+    if (!currentPeriod) return;
+
+    if (gameManager.pausePeriod(currentPeriod.id)) {
+      updatePeriodsFromManager();
+    }
+  };
+
   const handleSwapPlayer = (playerOutId: string, playerInId: string) => {
     if (!currentPeriod) return;
 
+    // Snapshot before the swap since GameManager changes the period in place
+    const playerOut = game.roster.find(p => p.id === playerOutId);
+    const playerIn = game.roster.find(p => p.id === playerInId);
+    const snapshot = createSnapshot(
+      `Swap #${playerIn?.jerseyNumber} in for #${playerOut?.jerseyNumber}`,
+      game,
+      currentPeriod,
+      lineupSuggestion
+    );
+
     const success = gameManager.swapPlayers(currentPeriod.id, playerOutId, playerInId);
     if (success) {
-      setGame(prev => ({
+      recordUndo(snapshot);
+      setGame(prev => replanRotation({
         ...prev,
         periods: [...gameManager['game'].periods],
+        events: gameManager['game'].events,
       }));
 
       setCurrentPeriod(prev => prev ? { ...gameManager['game'].periods.find(p => p.id === prev.id)! } : null);
     }
   };
 
-  const [showRosterFromTeams, setShowRosterFromTeams] = useState(false);
+  // A foul that puts a player out subs them off straight away and re-plans the rest of the game without them
+  const handleFoul = (playerId: string) => {
+    if (!currentPeriod) return;
+
+    const player = game.roster.find(p => p.id === playerId);
+    const snapshot = createSnapshot(`Foul on #${player?.jerseyNumber}`, game, currentPeriod, lineupSuggestion);
+    const lineupBefore = currentPeriod.lineup;
+
+    if (!gameManager.addFoul(currentPeriod.id, playerId)) return;
+    recordUndo(snapshot);
+
+    const fouledOut = gameManager.isFouledOut(playerId);
+    setGame(prev => {
+      const updatedGame = {
+        ...prev,
+        fouls: gameManager['game'].fouls,
+        periods: [...gameManager['game'].periods],
+        events: gameManager['game'].events,
+      };
+      return fouledOut ? replanRotation(updatedGame) : updatedGame;
+    });
+    const updatedPeriod = gameManager['game'].periods.find(p => p.id === currentPeriod.id)!;
+    setCurrentPeriod({ ...updatedPeriod });
+
+    if (fouledOut) {
+      const substitute = updatedPeriod.lineup.find(p => !lineupBefore.some(lp => lp.id === p.id));
+      Alert.alert(
+        'Fouled Out',
+        substitute
+          ? `${player?.name} has fouled out. #${substitute.jerseyNumber} ${substitute.name} is in for them.`
+          : `${player?.name} has fouled out. Nobody is left on the bench, so the team plays one short.`
+      );
+    }
+  };
+
+  const handleEndGame = () => {
+    if (!gameManager.endGame()) return;
+
+    // A finished game is locked, so there is nothing left to undo
+    clearUndoHistory();
+
+    setGame(prev => ({
+      ...prev,
+      isFinished: true,
+      endedAt: gameManager['game'].endedAt,
+      events: gameManager['game'].events,
+    }));
+
+    setCurrentPeriod(null);
+    setLineupSuggestion(null);
+  };
+
+  const handleReturnToTeams = () => {
+    resetForNextGame(true);
+  };
+
+  // Discarding an interrupted game drops it without archiving, so it never reaches history or the season ledger
+  const handleDiscardGame = () => {
+    resetForNextGame(false);
+  };
+
+  const resetForNextGame = (archivePrevious: boolean) => {
+    // Reset attendance and playing time so the roster is ready for the next game
+    const resetRoster = game.roster.map(player => ({
+      ...player,
+      isPresent: false,
+      totalPlayingTime: 0,
+    }));
+
+    updateActiveTeamPlayers(resetRoster);
+    const team = coachProfile.teams.find(t => t.id === game.teamId);
+    if (team) {
+      startFreshGame(team, resetRoster, archivePrevious);
+    }
+
+    setCurrentPeriod(null);
+    setLineupSuggestion(null);
+    setShowRosterFromTeams(false);
+  };
+
+  // Resuming an interrupted game
+  const handleResumeGame = () => {
+    if (!resumeCheckpoint) return;
+
+    // Rebuild the game from its event log; saves from before the log existed are resumed as stored
+    const hasLog = resumeCheckpoint.game.events?.some(event => event.type === 'gameStarted');
+    const savedGame = hasLog ? GameManager.replay(resumeCheckpoint.game) : resumeCheckpoint.game;
+    setGame(savedGame);
+    setCurrentPeriod(savedGame.periods.find(p => p.id === resumeCheckpoint.currentPeriodId && !p.isCompleted) || null);
+    setLineupSuggestion(resumeCheckpoint.lineupSuggestion);
+    setResumeCheckpoint(null);
+  };
+
+  const getResumeLabel = (checkpoint: GameCheckpoint) => {
+    const completed = checkpoint.game.periods.filter(p => p.isCompleted).length;
+    const openPeriod = checkpoint.game.periods.find(p => p.id === checkpoint.currentPeriodId && !p.isCompleted);
+    const date = checkpoint.game.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    const periodText = openPeriod
+      ? `period ${openPeriod.number} in progress`
+      : `${completed} of ${checkpoint.game.settings.periodsCount} periods played`;
+
+    return `Resume game from ${date} – ${periodText}`;
+  };
+
+  const isGameOpen = game.isActive && !resumeCheckpoint;
+
+  if (!isLoaded) {
+    return (
+      <SafeAreaProvider>
+        <StatusBar style="auto" />
+        <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+          <ActivityIndicator size="large" color="#2196F3" />
+        </View>
+      </SafeAreaProvider>
+    );
+  }
+
+  if (!isGameOpen && showHistory) {
+    return (
+      <SafeAreaProvider>
+        <StatusBar style="auto" />
+        <HistoryScreen
+          team={activeTeam}
+          games={gameHistory}
+          onBack={() => setShowHistory(false)}
+        />
+      </SafeAreaProvider>
+    );
+  }
 
-  if (!game.isActive && !showRosterFromTeams) {
+  if (!isGameOpen && !showRosterFromTeams) {
     return (
       <SafeAreaProvider>
         <StatusBar style="auto" />
@@ -324,6 +937,12 @@ export default function App() {
           onCreateTeam={handleCreateTeam}
           onUpgradeToPremium={handleUpgradeToPremium}
           onGoToRoster={() => setShowRosterFromTeams(true)}
+          onShowHistory={handleShowHistory}
+          onBackup={handleBackup}
+          onRestore={handleRestore}
+          resumeLabel={resumeCheckpoint ? getResumeLabel(resumeCheckpoint) : undefined}
+          onResumeGame={handleResumeGame}
+          onDiscardGame={handleDiscardGame}
         />
 
         <TeamEditModal
@@ -340,7 +959,7 @@ export default function App() {
     );
   }
 
-  if (!game.isActive && showRosterFromTeams) {
+  if (!isGameOpen && showRosterFromTeams) {
     return (
       <SafeAreaProvider>
         <StatusBar style="auto" />
@@ -351,7 +970,17 @@ export default function App() {
           onPlayerUpdate={handlePlayerUpdate}
           onPlayerAdd={handlePlayerAdd}
           onPlayerDelete={handlePlayerDelete}
+          onPlayersImport={handlePlayersImport}
+          lineupStrategy={game.settings.lineupStrategy}
+          onLineupStrategyChange={handleLineupStrategyChange}
+          seasonLedger={seasonLedger}
+          payDownSeasonDebt={!!game.settings.payDownSeasonDebt}
+          onPayDownSeasonDebtChange={handlePayDownSeasonDebtChange}
           onBackToTeams={() => setShowRosterFromTeams(false)}
+          undoLabel={undoHistory.current.getUndoLabel()}
+          redoLabel={undoHistory.current.getRedoLabel()}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
         />
       </SafeAreaProvider>
     );
@@ -387,9 +1016,22 @@ export default function App() {
               currentPeriod={currentPeriod}
               suggestion={lineupSuggestion}
               onGenerateLineup={handleGenerateLineup}
+              onGenerateAnotherLineup={handleGenerateAnotherLineup}
               onStartPeriod={handleStartPeriod}
               onCompletePeriod={handleCompletePeriod}
+              onStartClock={handleStartClock}
+              onPauseClock={handlePauseClock}
               onSwapPlayer={handleSwapPlayer}
+              onFoul={handleFoul}
+              onAddOvertime={handleAddOvertime}
+              undoLabel={undoHistory.current.getUndoLabel()}
+              redoLabel={undoHistory.current.getRedoLabel()}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onPlanRotation={handlePlanRotation}
+              onClearRotationPlan={handleClearRotationPlan}
+              onEndGame={handleEndGame}
+              onReturnToTeams={handleReturnToTeams}
             />
           )}
         </Tab.Screen>
@@ -416,9 +1058,15 @@ export default function App() {
               players={game.roster}
               onPlayerToggle={handlePlayerToggle}
               onStartGame={() => {}}
+              attendance={game.attendance}
+              gameStartedAt={game.events?.find(event => event.type === 'gameStarted')?.timestamp}
               onPlayerUpdate={handlePlayerUpdate}
               onPlayerAdd={handlePlayerAdd}
               onPlayerDelete={handlePlayerDelete}
+              undoLabel={undoHistory.current.getUndoLabel()}
+              redoLabel={undoHistory.current.getRedoLabel()}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
             />
           )}
         </Tab.Screen>
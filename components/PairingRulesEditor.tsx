@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Player, PairingRule } from '../types';
+import { describeRule } from '../utils/pairingRules';
+
+interface PairingRulesEditorProps {
+  players: Player[];
+  rules: PairingRule[];
+  onChange: (rules: PairingRule[]) => void;
+}
+
+type RuleKind = 'together' | 'apart' | 'preferTogether' | 'preferApart';
+
+const RULE_KINDS: { kind: RuleKind; label: string }[] = [
+  { kind: 'together', label: 'Always together' },
+  { kind: 'apart', label: 'Never together' },
+  { kind: 'preferTogether', label: 'Prefer together' },
+  { kind: 'preferApart', label: 'Prefer apart' },
+];
+
+export default function PairingRulesEditor({
+  players,
+  rules,
+  onChange,
+}: PairingRulesEditorProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [kind, setKind] = useState<RuleKind>('together');
+  const [strength, setStrength] = useState(2);
+
+  const isPreference = kind === 'preferTogether' || kind === 'preferApart';
+
+  const togglePlayer = (playerId: string) => {
+    if (selectedIds.includes(playerId)) {
+      setSelectedIds(selectedIds.filter(id => id !== playerId));
+    } else {
+      // Picking a third player replaces the first one picked
+      setSelectedIds([...selectedIds, playerId].slice(-2));
+    }
+  };
+
+  const handleAdd = () => {
+    if (selectedIds.length !== 2) return;
+
+    const rule: PairingRule = {
+      id: `rule-${Date.now()}`,
+      playerIds: [selectedIds[0], selectedIds[1]],
+      type: isPreference ? 'prefer' : kind as 'together' | 'apart',
+      weight: isPreference ? (kind === 'preferTogether' ? strength : -strength) : undefined,
+    };
+
+    // A pair only has one rule; adding another replaces it
+    const otherRules = rules.filter(r =>
+      !(r.playerIds.includes(rule.playerIds[0]) && r.playerIds.includes(rule.playerIds[1]))
+    );
+    onChange([...otherRules, rule]);
+    setSelectedIds([]);
+  };
+
+  const handleRemove = (ruleId: string) => {
+    onChange(rules.filter(r => r.id !== ruleId));
+  };
+
+  if (players.length < 2) {
+    return <Text style={styles.emptyText}>Add at least two players to set pairing rules</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {rules.length === 0 ? (
+        <Text style={styles.emptyText}>No pairing rules yet</Text>
+      ) : (
+        rules.map(rule => (
+          <View key={rule.id} style={styles.ruleRow}>
+            <Text style={styles.ruleText}>{describeRule(rule, players)}</Text>
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(rule.id)}>
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <Text style={styles.hint}>Pick two players</Text>
+      <View style={styles.chipGrid}>
+        {players.map(player => {
+          const isSelected = selectedIds.includes(player.id);
+          return (
+            <TouchableOpacity
+              key={player.id}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => togglePlayer(player.id)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                #{player.jerseyNumber} {player.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.chipGrid}>
+        {RULE_KINDS.map(option => {
+          const isSelected = option.kind === kind;
+          return (
+            <TouchableOpacity
+              key={option.kind}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setKind(option.kind)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {isPreference && (
+        <View style={styles.strengthRow}>
+          <Text style={styles.hint}>Strength</Text>
+          {[1, 2, 3].map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.strengthOption, strength === value && styles.chipSelected]}
+              onPress={() => setStrength(value)}
+            >
+              <Text style={[styles.chipText, strength === value && styles.chipTextSelected]}>{value}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.addButton, selectedIds.length !== 2 && styles.addButtonDisabled]}
+        onPress={handleAdd}
+        disabled={selectedIds.length !== 2}
+      >
+        <Text style={styles.addButtonText}>Add Rule</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  removeButton: {
+    paddingHorizontal: 8,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#f44336',
+    fontWeight: 'bold',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  chipSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  strengthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  strengthOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButton: {
+    backgroundColor: '#2196F3',
+    padding: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
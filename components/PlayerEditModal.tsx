@@ -9,7 +9,8 @@ import {
   Alert,
   ScrollView,
 } from 'react-native';
-import { Player } from '../types';
+import { Player, Position } from '../types';
+import { validatePlayerFields, PLAYER_POSITIONS } from '../utils/playerValidation';
 
 interface PlayerEditModalProps {
   visible: boolean;
@@ -31,7 +32,7 @@ export default function PlayerEditModal({
   const [name, setName] = useState(player?.name || '');
   const [jerseyNumber, setJerseyNumber] = useState(player?.jerseyNumber?.toString() || '');
   const [skillLevel, setSkillLevel] = useState(player?.skillLevel || 3);
-  const [position, setPosition] = useState(player?.position || 'Any');
+  const [positions, setPositions] = useState<Position[]>(player?.positions || ['Any']);
 
   const isNewPlayer = !player?.id;
 
@@ -40,32 +41,26 @@ export default function PlayerEditModal({
       setName(player.name);
       setJerseyNumber(player.jerseyNumber.toString());
       setSkillLevel(player.skillLevel);
-      setPosition(player.position);
+      setPositions(player.positions);
     } else {
       setName('');
       setJerseyNumber('');
       setSkillLevel(3);
-      setPosition('Any');
+      setPositions(['Any']);
     }
   }, [player, visible]);
 
   const handleSave = () => {
     const jerseyNum = parseInt(jerseyNumber);
 
-    // Validation
-    if (!name.trim()) {
-      Alert.alert('Error', 'Player name is required');
-      return;
-    }
-
-    if (!jerseyNumber || isNaN(jerseyNum) || jerseyNum < 1 || jerseyNum > 99) {
-      Alert.alert('Error', 'Please enter a valid jersey number (1-99)');
-      return;
-    }
-
-    // Check if jersey number is already taken (except for current player)
-    if (existingJerseyNumbers.includes(jerseyNum) && jerseyNum !== player?.jerseyNumber) {
-      Alert.alert('Error', `Jersey number ${jerseyNum} is already taken`);
+    // Validation - the current player's own number is never taken
+    const error = validatePlayerFields(
+      name,
+      jerseyNumber,
+      existingJerseyNumbers.filter(num => num !== player?.jerseyNumber)
+    );
+    if (error) {
+      Alert.alert('Error', error);
       return;
     }
 
@@ -74,7 +69,7 @@ export default function PlayerEditModal({
       name: name.trim(),
       jerseyNumber: jerseyNum,
       skillLevel,
-      position: position as Player['position'],
+      positions: positions.length > 0 ? positions : ['Any'],
       isPresent: player?.isPresent || false,
       totalPlayingTime: player?.totalPlayingTime || 0,
     };
@@ -82,6 +77,11 @@ export default function PlayerEditModal({
     onSave(updatedPlayer);
   };
 
+  // Tapping adds a position after the ones already picked, so the order is the preference
+  const togglePosition = (pos: Position) => {
+    setPositions(positions.includes(pos) ? positions.filter(p => p !== pos) : [...positions, pos]);
+  };
+
   const handleDelete = () => {
     if (!player?.id) return;
 
@@ -99,8 +99,6 @@ export default function PlayerEditModal({
     );
   };
 
-  const positions: Player['position'][] = ['Guard', 'Forward', 'Center', 'Any'];
-
   return (
     <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.overlay}>
@@ -162,28 +160,34 @@ export default function PlayerEditModal({
             </View>
 
             <View style={styles.field}>
-              <Text style={styles.label}>Primary Position</Text>
+              <Text style={styles.label}>Positions</Text>
               <View style={styles.positionSelector}>
-                {positions.map((pos) => (
-                  <TouchableOpacity
-                    key={pos}
-                    style={[
-                      styles.positionButton,
-                      position === pos && styles.positionButtonActive,
-                    ]}
-                    onPress={() => setPosition(pos)}
-                  >
-                    <Text
+                {PLAYER_POSITIONS.map((pos) => {
+                  const rank = positions.indexOf(pos);
+                  return (
+                    <TouchableOpacity
+                      key={pos}
                       style={[
-                        styles.positionButtonText,
-                        position === pos && styles.positionButtonTextActive,
+                        styles.positionButton,
+                        rank >= 0 && styles.positionButtonActive,
                       ]}
+                      onPress={() => togglePosition(pos)}
                     >
-                      {pos}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text
+                        style={[
+                          styles.positionButtonText,
+                          rank >= 0 && styles.positionButtonTextActive,
+                        ]}
+                      >
+                        {rank >= 0 ? `${rank + 1}. ${pos}` : pos}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
+              <Text style={styles.skillDescription}>
+                Tap in order of preference; "Any" covers every position not picked before it
+              </Text>
             </View>
           </ScrollView>
 
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { Player } from '../types';
+import { parseRosterCsv } from '../utils/rosterCsv';
+import { formatPositions } from '../utils/positionRules';
+
+interface RosterImportModalProps {
+  visible: boolean;
+  existingPlayers: Player[];
+  onImport: (players: Player[], replaceRoster: boolean) => void;
+  onCancel: () => void;
+}
+
+export default function RosterImportModal({
+  visible,
+  existingPlayers,
+  onImport,
+  onCancel,
+}: RosterImportModalProps) {
+  const [csvText, setCsvText] = useState('');
+  const [replaceRoster, setReplaceRoster] = useState(false);
+
+  React.useEffect(() => {
+    setCsvText('');
+    setReplaceRoster(false);
+  }, [visible]);
+
+  // Replacing the roster frees up every jersey number currently in use
+  const rows = React.useMemo(
+    () => parseRosterCsv(csvText, replaceRoster ? [] : existingPlayers.map(p => p.jerseyNumber)),
+    [csvText, replaceRoster, existingPlayers]
+  );
+  const validPlayers = rows.filter(row => row.player).map(row => row.player!);
+  const errorCount = rows.length - validPlayers.length;
+
+  const handleImport = () => {
+    if (validPlayers.length === 0) return;
+
+    const importPlayers = () => onImport(validPlayers, replaceRoster);
+
+    if (errorCount > 0) {
+      Alert.alert(
+        'Skip Rows With Errors?',
+        `${errorCount} ${errorCount === 1 ? 'row has' : 'rows have'} errors and will not be imported.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import', onPress: importPlayers },
+        ]
+      );
+      return;
+    }
+
+    importPlayers();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <ScrollView style={styles.content}>
+            <Text style={styles.title}>Import Roster</Text>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Paste CSV</Text>
+              <Text style={styles.hint}>
+                Columns: Name, Jersey Number, Skill Level, Position. A header row is optional.
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={csvText}
+                onChangeText={setCsvText}
+                placeholder={'Name,Jersey Number,Skill Level,Position\nSam Lee,7,3,Guard'}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <View style={styles.field}>
+              <View style={styles.modeSelector}>
+                {[false, true].map(replace => (
+                  <TouchableOpacity
+                    key={String(replace)}
+                    style={[styles.modeButton, replaceRoster === replace && styles.modeButtonActive]}
+                    onPress={() => setReplaceRoster(replace)}
+                  >
+                    <Text style={[styles.modeButtonText, replaceRoster === replace && styles.modeButtonTextActive]}>
+                      {replace ? 'Replace roster' : 'Add to roster'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {rows.length > 0 && (
+              <View style={styles.field}>
+                <Text style={styles.label}>
+                  Preview: {validPlayers.length} ready{errorCount > 0 ? `, ${errorCount} with errors` : ''}
+                </Text>
+                {rows.map(row => (
+                  <View
+                    key={row.lineNumber}
+                    style={[styles.previewRow, row.player ? styles.validRow : styles.errorRow]}
+                  >
+                    <Text style={styles.previewText}>
+                      {row.player
+                        ? `✓ #${row.player.jerseyNumber} ${row.player.name} • ${formatPositions(row.player)} • Skill ${row.player.skillLevel}`
+                        : `✗ Line ${row.lineNumber}${row.name ? ` (${row.name})` : ''}`}
+                    </Text>
+                    {row.errors.map(error => (
+                      <Text key={error} style={styles.errorText}>{error}</Text>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.buttonContainer}>
+            <View style={styles.actionButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.saveButton, validPlayers.length === 0 && styles.saveButtonDisabled]}
+                onPress={handleImport}
+                disabled={validPlayers.length === 0}
+              >
+                <Text style={styles.saveButtonText}>
+                  Import {validPlayers.length} {validPlayers.length === 1 ? 'Player' : 'Players'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  content: {
+    padding: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 20,
+    color: '#333',
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    backgroundColor: '#f9f9f9',
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  modeSelector: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    borderColor: '#2196F3',
+    backgroundColor: '#2196F3',
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  modeButtonTextActive: {
+    color: '#fff',
+  },
+  previewRow: {
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  validRow: {
+    backgroundColor: '#e8f5e9',
+  },
+  errorRow: {
+    backgroundColor: '#ffebee',
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#f44336',
+    marginTop: 2,
+  },
+  buttonContainer: {
+    padding: 20,
+    paddingTop: 0,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#6c757d',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { LineupStrategyId } from '../types';
+import { lineupStrategies, DEFAULT_LINEUP_STRATEGY } from '../utils/lineupStrategies';
+
+interface StrategyPickerProps {
+  selected?: LineupStrategyId;
+  onSelect: (strategyId: LineupStrategyId) => void;
+}
+
+export default function StrategyPicker({
+  selected = DEFAULT_LINEUP_STRATEGY,
+  onSelect,
+}: StrategyPickerProps) {
+  return (
+    <View style={styles.container}>
+      {lineupStrategies.list().map(strategy => {
+        const isSelected = strategy.id === selected;
+
+        return (
+          <TouchableOpacity
+            key={strategy.id}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => onSelect(strategy.id)}
+          >
+            <Text style={[styles.optionName, isSelected && styles.optionTextSelected]}>
+              {strategy.name}
+            </Text>
+            <Text style={[styles.optionDescription, isSelected && styles.optionTextSelected]}>
+              {strategy.description}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  option: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  optionSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#2196F3',
+  },
+  optionName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+});
\ No newline at end of file
@@ -8,8 +8,16 @@ import {
   StyleSheet,
   Alert,
   ScrollView,
+  Switch,
 } from 'react-native';
-import { Team } from '../types';
+import { Team, LineupStrategyId, PairingRule, RotationLimits, PositionRule, CourtPosition, CatchUpPolicy, LeagueRule } from '../types';
+import StrategyPicker from './StrategyPicker';
+import PairingRulesEditor from './PairingRulesEditor';
+import { COURT_POSITIONS } from '../utils/positionRules';
+import { CATCH_UP_POLICIES, DEFAULT_CATCH_UP_POLICY } from '../utils/catchUpPolicy';
+import { LEAGUE_RULE_PRESETS, CUSTOM_PROFILE_ID, describeLeagueRule, getLeagueRuleProfile } from '../utils/leagueRules';
+import { SEGMENT_FORMATS } from '../utils/gameSegments';
+import { DEFAULT_FOUL_LIMIT, FOUL_LIMIT_OPTIONS, describeFoulLimit } from '../utils/fouls';
 
 interface TeamEditModalProps {
   visible: boolean;
@@ -19,6 +27,13 @@ interface TeamEditModalProps {
   onDelete?: (teamId: string) => void;
 }
 
+const BENCH_LIMIT_OPTIONS = [1, 2, 3, 4];
+const PLAY_LIMIT_OPTIONS = [2, 3, 4, 5];
+const POSITION_MIN_OPTIONS = [1, 2, 3];
+const POSITION_MAX_OPTIONS = [0, 1, 2, 3];
+const LEAGUE_PERIOD_OPTIONS = [1, 2, 3, 4];
+const LEAGUE_WINDOW_OPTIONS = [2, 3, 4, 5, 6];
+
 const TEAM_COLORS = [
   { name: 'Red', primary: '#f44336', secondary: '#ffcdd2' },
   { name: 'Blue', primary: '#2196F3', secondary: '#bbdefb' },
@@ -44,6 +59,16 @@ export default function TeamEditModal({
     team ? TEAM_COLORS.find(c => c.primary === team.primaryColor) || TEAM_COLORS[0] : TEAM_COLORS[0]
   );
 
+  const [lineupStrategy, setLineupStrategy] = useState<LineupStrategyId | undefined>(team?.lineupStrategy);
+  const [pairingRules, setPairingRules] = useState<PairingRule[]>(team?.pairingRules || []);
+  const [rotationLimits, setRotationLimits] = useState<RotationLimits>(team?.rotationLimits || {});
+  const [positionRules, setPositionRules] = useState<PositionRule[]>(team?.positionRules || []);
+  const [payDownSeasonDebt, setPayDownSeasonDebt] = useState(!!team?.payDownSeasonDebt);
+  const [catchUpPolicy, setCatchUpPolicy] = useState<CatchUpPolicy | undefined>(team?.catchUpPolicy);
+  const [leagueRules, setLeagueRules] = useState<LeagueRule[]>(team?.leagueRules || []);
+  const [segmentsCount, setSegmentsCount] = useState<number | undefined>(team?.segmentsCount);
+  const [foulLimit, setFoulLimit] = useState<number | undefined>(team?.foulLimit);
+
   const isNewTeam = !team?.id;
 
   React.useEffect(() => {
@@ -52,9 +77,27 @@ export default function TeamEditModal({
       setSelectedColor(
         TEAM_COLORS.find(c => c.primary === team.primaryColor) || TEAM_COLORS[0]
       );
+      setLineupStrategy(team.lineupStrategy);
+      setPairingRules(team.pairingRules || []);
+      setRotationLimits(team.rotationLimits || {});
+      setPositionRules(team.positionRules || []);
+      setPayDownSeasonDebt(!!team.payDownSeasonDebt);
+      setCatchUpPolicy(team.catchUpPolicy);
+      setLeagueRules(team.leagueRules || []);
+      setSegmentsCount(team.segmentsCount);
+      setFoulLimit(team.foulLimit);
     } else {
       setName('');
       setSelectedColor(TEAM_COLORS[0]);
+      setLineupStrategy(undefined);
+      setPairingRules([]);
+      setRotationLimits({});
+      setPositionRules([]);
+      setPayDownSeasonDebt(false);
+      setCatchUpPolicy(undefined);
+      setLeagueRules([]);
+      setSegmentsCount(undefined);
+      setFoulLimit(undefined);
     }
   }, [team, visible]);
 
@@ -64,6 +107,22 @@ export default function TeamEditModal({
       return;
     }
 
+    const impossibleRule = positionRules.find(rule =>
+      rule.min !== undefined && rule.max !== undefined && rule.min > rule.max
+    );
+    if (impossibleRule) {
+      Alert.alert('Error', `The minimum for ${impossibleRule.position}s is more than the maximum`);
+      return;
+    }
+
+    const impossibleLeagueRule = leagueRules.find(rule =>
+      rule.type === 'minPeriodsBy' && rule.byPeriod !== undefined && rule.minPeriods > rule.byPeriod
+    );
+    if (impossibleLeagueRule) {
+      Alert.alert('Error', `"${describeLeagueRule(impossibleLeagueRule)}" asks for more periods than it allows`);
+      return;
+    }
+
     const updatedTeam: Team = {
       id: team?.id || `team-${Date.now()}`,
       name: name.trim(),
@@ -71,6 +130,20 @@ export default function TeamEditModal({
       primaryColor: selectedColor.primary,
       secondaryColor: selectedColor.secondary,
       players: team?.players || [],
+      lineupStrategy,
+      // Rules for players who have since left the team are dropped
+      pairingRules: pairingRules.filter(rule =>
+        rule.playerIds.every(id => team?.players.some(p => p.id === id))
+      ),
+      rotationLimits,
+      positionRules: COURT_POSITIONS
+        .map(position => positionRules.find(rule => rule.position === position))
+        .filter((rule): rule is PositionRule => !!rule),
+      payDownSeasonDebt,
+      catchUpPolicy,
+      leagueRules,
+      segmentsCount,
+      foulLimit,
       createdAt: team?.createdAt || new Date(),
       updatedAt: new Date(),
     };
@@ -119,6 +192,235 @@ export default function TeamEditModal({
     </View>
   );
 
+  const renderLimitPicker = (
+    label: string,
+    options: number[],
+    value: number | undefined,
+    onChange: (value?: number) => void,
+    offLabel: string = 'Off'
+  ) => (
+    <View style={styles.limitRow}>
+      <Text style={styles.limitLabel}>{label}</Text>
+      <View style={styles.limitOptions}>
+        {[undefined, ...options].map(option => (
+          <TouchableOpacity
+            key={option ?? 'off'}
+            style={[styles.limitOption, value === option && styles.limitOptionSelected]}
+            onPress={() => onChange(option)}
+          >
+            <Text style={[styles.limitOptionText, value === option && styles.limitOptionTextSelected]}>
+              {option ?? offLabel}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderRotationLimits = () => (
+    <View style={styles.field}>
+      <Text style={styles.label}>Rotation Limits</Text>
+      {renderLimitPicker(
+        'Most periods in a row on the bench',
+        BENCH_LIMIT_OPTIONS,
+        rotationLimits.maxConsecutiveBench,
+        value => setRotationLimits({ ...rotationLimits, maxConsecutiveBench: value })
+      )}
+      {renderLimitPicker(
+        'Most periods in a row on court',
+        PLAY_LIMIT_OPTIONS,
+        rotationLimits.maxConsecutivePlay,
+        value => setRotationLimits({ ...rotationLimits, maxConsecutivePlay: value })
+      )}
+    </View>
+  );
+
+  const renderGameFormat = () => {
+    const selected = segmentsCount || 1;
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>Game Format</Text>
+        <View style={styles.limitOptions}>
+          {SEGMENT_FORMATS.map(format => (
+            <TouchableOpacity
+              key={format.count}
+              style={[styles.limitOption, selected === format.count && styles.limitOptionSelected]}
+              onPress={() => setSegmentsCount(format.count)}
+            >
+              <Text style={[styles.limitOptionText, selected === format.count && styles.limitOptionTextSelected]}>
+                {format.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.policyDescription}>
+          {SEGMENT_FORMATS.find(format => format.count === selected)?.description}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderFoulLimit = () => {
+    const selected = foulLimit ?? DEFAULT_FOUL_LIMIT;
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>Foul Limit</Text>
+        <View style={styles.limitOptions}>
+          {FOUL_LIMIT_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.limitOption, selected === option && styles.limitOptionSelected]}
+              onPress={() => setFoulLimit(option)}
+            >
+              <Text style={[styles.limitOptionText, selected === option && styles.limitOptionTextSelected]}>
+                {option > 0 ? option : 'Off'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.policyDescription}>{describeFoulLimit(selected)}</Text>
+      </View>
+    );
+  };
+
+  const renderCatchUpPolicy = () => {
+    const selected = catchUpPolicy || DEFAULT_CATCH_UP_POLICY;
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>Late Arrivals</Text>
+        <View style={styles.limitOptions}>
+          {CATCH_UP_POLICIES.map(policy => (
+            <TouchableOpacity
+              key={policy.id}
+              style={[styles.limitOption, selected === policy.id && styles.limitOptionSelected]}
+              onPress={() => setCatchUpPolicy(policy.id)}
+            >
+              <Text style={[styles.limitOptionText, selected === policy.id && styles.limitOptionTextSelected]}>
+                {policy.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.policyDescription}>
+          {CATCH_UP_POLICIES.find(policy => policy.id === selected)?.description}
+        </Text>
+      </View>
+    );
+  };
+
+  // Turning a rule's number off removes the rule, except the window of a minimum, where off means the whole game
+  const updateLeagueRule = (index: number, rule?: LeagueRule) => {
+    setLeagueRules(rule
+      ? leagueRules.map((existing, i) => i === index ? rule : existing)
+      : leagueRules.filter((_, i) => i !== index));
+  };
+
+  const renderLeagueRules = () => {
+    const profileId = getLeagueRuleProfile(leagueRules)?.id || 'none';
+    const profiles = [{ id: 'none', name: 'None', rules: [] }, ...LEAGUE_RULE_PRESETS];
+
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>League Rules</Text>
+        <View style={styles.limitOptions}>
+          {profiles.map(profile => (
+            <TouchableOpacity
+              key={profile.id}
+              style={[styles.limitOption, profileId === profile.id && styles.limitOptionSelected]}
+              onPress={() => setLeagueRules(profile.rules)}
+            >
+              <Text style={[styles.limitOptionText, profileId === profile.id && styles.limitOptionTextSelected]}>
+                {profile.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {profileId === CUSTOM_PROFILE_ID && (
+            <View style={[styles.limitOption, styles.limitOptionSelected]}>
+              <Text style={[styles.limitOptionText, styles.limitOptionTextSelected]}>Custom</Text>
+            </View>
+          )}
+        </View>
+
+        {leagueRules.map((rule, index) => (
+          <View key={index} style={styles.leagueRule}>
+            {rule.type === 'minPeriodsBy' ? (
+              <>
+                {renderLimitPicker(
+                  'Every player plays at least',
+                  LEAGUE_PERIOD_OPTIONS,
+                  rule.minPeriods,
+                  value => updateLeagueRule(index, value === undefined ? undefined : { ...rule, minPeriods: value })
+                )}
+                {renderLimitPicker(
+                  'Of the first this many periods',
+                  LEAGUE_WINDOW_OPTIONS,
+                  rule.byPeriod,
+                  value => updateLeagueRule(index, { ...rule, byPeriod: value }),
+                  'Game'
+                )}
+              </>
+            ) : (
+              renderLimitPicker(
+                'Nobody plays more periods until everyone has played',
+                LEAGUE_PERIOD_OPTIONS,
+                rule.periods,
+                value => updateLeagueRule(index, value === undefined ? undefined : { ...rule, periods: value })
+              )
+            )}
+            <Text style={styles.policyDescription}>{describeLeagueRule(rule)}</Text>
+          </View>
+        ))}
+
+        <View style={styles.limitOptions}>
+          <TouchableOpacity
+            style={styles.limitOption}
+            onPress={() => setLeagueRules([...leagueRules, { type: 'minPeriodsBy', minPeriods: 2, byPeriod: 4 }])}
+          >
+            <Text style={styles.limitOptionText}>+ Minimum Periods</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.limitOption}
+            onPress={() => setLeagueRules([...leagueRules, { type: 'equalBeforeExtra', periods: 2 }])}
+          >
+            <Text style={styles.limitOptionText}>+ Equal Turns</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // One rule per position, dropped once it has neither a minimum nor a maximum
+  const updatePositionRule = (position: CourtPosition, change: Partial<PositionRule>) => {
+    const rule = { ...positionRules.find(r => r.position === position), ...change, position };
+    const otherRules = positionRules.filter(r => r.position !== position);
+    setPositionRules(rule.min === undefined && rule.max === undefined ? otherRules : [...otherRules, rule]);
+  };
+
+  const renderPositionRules = () => (
+    <View style={styles.field}>
+      <Text style={styles.label}>Lineup Positions</Text>
+      {COURT_POSITIONS.map(position => {
+        const rule = positionRules.find(r => r.position === position);
+        return (
+          <View key={position}>
+            {renderLimitPicker(
+              `At least this many ${position}s on court`,
+              POSITION_MIN_OPTIONS,
+              rule?.min,
+              value => updatePositionRule(position, { min: value })
+            )}
+            {renderLimitPicker(
+              `At most this many ${position}s on court`,
+              POSITION_MAX_OPTIONS,
+              rule?.max,
+              value => updatePositionRule(position, { max: value })
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
   const renderTeamPreview = () => (
     <View style={styles.previewContainer}>
       <Text style={styles.label}>Preview</Text>
@@ -165,6 +467,38 @@ export default function TeamEditModal({
 
             {renderColorSelector()}
 
+            <View style={styles.field}>
+              <Text style={styles.label}>Lineup Strategy</Text>
+              <StrategyPicker selected={lineupStrategy} onSelect={setLineupStrategy} />
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Pay down season playing-time debt</Text>
+                <Switch value={payDownSeasonDebt} onValueChange={setPayDownSeasonDebt} />
+              </View>
+            </View>
+
+            {renderGameFormat()}
+
+            {renderRotationLimits()}
+
+            {renderCatchUpPolicy()}
+
+            {renderFoulLimit()}
+
+            {renderPositionRules()}
+
+            {renderLeagueRules()}
+
+            {!isNewTeam && (
+              <View style={styles.field}>
+                <Text style={styles.label}>Pairing Rules</Text>
+                <PairingRulesEditor
+                  players={team?.players || []}
+                  rules={pairingRules}
+                  onChange={setPairingRules}
+                />
+              </View>
+            )}
+
             {renderTeamPreview()}
 
             {!isNewTeam && (
@@ -235,6 +569,17 @@ const styles = StyleSheet.create({
   field: {
     marginBottom: 20,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
   label: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -278,6 +623,46 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  limitRow: {
+    marginBottom: 8,
+  },
+  limitLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  limitOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  limitOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  limitOptionSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#2196F3',
+  },
+  limitOptionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  limitOptionTextSelected: {
+    color: '#fff',
+  },
+  leagueRule: {
+    marginBottom: 12,
+  },
+  policyDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 6,
+  },
   previewContainer: {
     marginBottom: 20,
   },
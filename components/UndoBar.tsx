@@ -0,0 +1,73 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+
+interface UndoBarProps {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function UndoBar({
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+}: UndoBarProps) {
+  if (!undoLabel && !redoLabel) return null;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.button, !undoLabel && styles.buttonDisabled]}
+        onPress={onUndo}
+        disabled={!undoLabel}
+      >
+        <Text style={styles.buttonText} numberOfLines={1}>
+          ↶ Undo{undoLabel ? `: ${undoLabel}` : ''}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.button, styles.redoButton, !redoLabel && styles.buttonDisabled]}
+        onPress={onRedo}
+        disabled={!redoLabel}
+      >
+        <Text style={styles.buttonText} numberOfLines={1}>
+          Redo ↷
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#6c757d',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  redoButton: {
+    flex: 0,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
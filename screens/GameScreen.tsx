@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,16 +8,38 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Game, Period, LineupSuggestion, Player } from '../types';
+import { Game, Period, LineupSuggestion, LineupScores, Player } from '../types';
+import { GameManager } from '../utils/gameManager';
+import { findBrokenRules, describeRule } from '../utils/pairingRules';
+import { findRotationViolations, describeViolation } from '../utils/rotationLimits';
+import { assignPositions, findBrokenPositionRules, describePositionRule } from '../utils/positionRules';
+import { findLeagueViolations, describeLeagueViolation } from '../utils/leagueRules';
+import { getPeriodShares } from '../utils/periodShares';
+import { getSegments, getSegmentForPeriod, hasSegments } from '../utils/gameSegments';
+import { getFoulLimit, describeFouls } from '../utils/fouls';
+import UndoBar from '../components/UndoBar';
 
 interface GameScreenProps {
   game: Game;
   currentPeriod: Period | null;
   suggestion: LineupSuggestion | null;
   onGenerateLineup: () => void;
+  onGenerateAnotherLineup: () => void;
   onStartPeriod: (period: Period) => void;
   onCompletePeriod: (periodId: string) => void;
+  onStartClock: () => void;
+  onPauseClock: () => void;
   onSwapPlayer: (playerOutId: string, playerInId: string) => void;
+  onFoul: (playerId: string) => void;
+  onAddOvertime: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onPlanRotation: () => void;
+  onClearRotationPlan: () => void;
+  onEndGame: () => void;
+  onReturnToTeams: () => void;
 }
 
 export default function GameScreen({
@@ -25,16 +47,47 @@ export default function GameScreen({
   currentPeriod,
   suggestion,
   onGenerateLineup,
+  onGenerateAnotherLineup,
   onStartPeriod,
   onCompletePeriod,
+  onStartClock,
+  onPauseClock,
   onSwapPlayer,
+  onFoul,
+  onAddOvertime,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onPlanRotation,
+  onClearRotationPlan,
+  onEndGame,
+  onReturnToTeams,
 }: GameScreenProps) {
   const [selectedPlayerOut, setSelectedPlayerOut] = useState<string | null>(null);
+  const [showLineupOptions, setShowLineupOptions] = useState(false);
+  const [explainedPlayerId, setExplainedPlayerId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
 
-  const presentPlayers = game.roster.filter(p => p.isPresent);
+  const gameManager = useMemo(() => new GameManager(game), [game]);
+  const isClockRunning = !!currentPeriod && gameManager.isClockRunning(currentPeriod);
+
+  // Tick once a second while the period clock is running
+  useEffect(() => {
+    if (!isClockRunning) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isClockRunning]);
+
+  // Fouled-out players stay on the bench list but can no longer come on
+  const presentPlayers = gameManager.getEligiblePlayers();
   const benchPlayers = presentPlayers.filter(
     p => !currentPeriod?.lineup.some(lp => lp.id === p.id)
   );
+  const fouledOutPlayers = game.roster.filter(p => p.isPresent && gameManager.isFouledOut(p.id));
+  const foulLimit = getFoulLimit(game.settings);
 
   const handlePlayerSwap = (playerInId: string) => {
     if (!selectedPlayerOut || !currentPeriod) return;
@@ -43,13 +96,77 @@ export default function GameScreen({
     setSelectedPlayerOut(null);
   };
 
+  const handleEndGame = () => {
+    if (currentPeriod && !currentPeriod.isCompleted) {
+      Alert.alert(
+        'Period In Progress',
+        `Complete period ${currentPeriod.number} before ending the game.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'End Game',
+      'End the game now? The lineups and playing time will be locked.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'End Game', style: 'destructive', onPress: onEndGame },
+      ]
+    );
+  };
+
   const formatTime = (minutes: number) => {
     return `${Math.floor(minutes)}:${String(Math.round((minutes % 1) * 60)).padStart(2, '0')}`;
   };
 
+  const formatPeriods = (periods: number) => {
+    const rounded = Math.round(periods * 10) / 10;
+    return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
+  };
+
+  const formatClock = (minutes: number) => {
+    const totalSeconds = Math.max(0, Math.round(minutes * 60));
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  };
+
+  const renderPeriodClock = () => {
+    if (!currentPeriod || currentPeriod.isCompleted) return null;
+
+    const elapsed = gameManager.getElapsedTime(currentPeriod, now);
+    const remaining = gameManager.getRemainingTime(currentPeriod, now);
+    const hasStarted = isClockRunning || elapsed > 0;
+
+    return (
+      <View style={styles.clockContainer}>
+        <View>
+          <Text style={[styles.clockTime, remaining === 0 && styles.clockExpired]}>
+            {formatClock(remaining)}
+          </Text>
+          <Text style={styles.clockLabel}>
+            {remaining === 0
+              ? `Time is up • ${formatClock(elapsed)} played`
+              : `${formatClock(elapsed)} of ${formatClock(game.settings.periodDuration)} played`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.clockButton, isClockRunning && styles.clockButtonRunning]}
+          onPress={isClockRunning ? onPauseClock : onStartClock}
+        >
+          <Text style={styles.clockButtonText}>
+            {isClockRunning ? 'Pause' : hasStarted ? 'Resume' : 'Start Clock'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Halves or quarters show as a wider gap in the bar with their names underneath
   const renderPeriodProgress = () => {
     const completed = game.periods.filter(p => p.isCompleted).length;
     const total = game.settings.periodsCount;
+    const segments = hasSegments(game.settings) ? getSegments(game.settings) : [];
+    const currentSegment = getSegmentForPeriod(game.settings, completed + 1);
 
     return (
       <View style={styles.progressContainer}>
@@ -61,20 +178,100 @@ export default function GameScreen({
               style={[
                 styles.progressSegment,
                 i < completed ? styles.completedSegment : styles.pendingSegment,
+                segments.some(s => s.number > 1 && s.firstPeriod === i + 1) && styles.segmentStart,
               ]}
             />
           ))}
         </View>
+        {segments.length > 0 && (
+          <View style={styles.segmentLabels}>
+            {segments.map(segment => (
+              <Text
+                key={segment.number}
+                style={[styles.segmentLabel, { flex: segment.lastPeriod - segment.firstPeriod + 1 }]}
+              >
+                {segment.name}
+              </Text>
+            ))}
+          </View>
+        )}
         <Text style={styles.progressText}>
-          Period {completed + 1} of {total}
+          {game.isFinished
+            ? `Final • ${completed} periods played`
+            : completed + 1 > total
+              ? `Overtime ${completed + 1 - total}`
+              : `Period ${completed + 1} of ${total}${currentSegment ? ` • ${currentSegment.name}` : ''}`}
         </Text>
       </View>
     );
   };
 
+  // League rules the lineup breaks, or makes impossible to meet for the rest of the game
+  const describeLeagueProblems = (lineup: Player[], previousPeriods: Period[]): string[] => {
+    const constraints = gameManager.getLineupConstraints();
+    return findLeagueViolations(
+      constraints.leagueRules,
+      getPeriodShares(previousPeriods, constraints),
+      lineup,
+      presentPlayers,
+      game.settings.periodsCount
+    ).map(violation => describeLeagueViolation(violation, game.roster));
+  };
+
+  const handleStartLineup = (lineup: LineupSuggestion) => {
+    const start = () => onStartPeriod(gameManager.createPeriodFromSuggestion(lineup));
+    const problems = describeLeagueProblems(lineup.players, game.periods);
+    if (problems.length === 0) {
+      start();
+      return;
+    }
+
+    Alert.alert(
+      'League Rules',
+      `${problems.join('\n')}\n\nStart this lineup anyway?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start Anyway', style: 'destructive', onPress: start },
+      ]
+    );
+  };
+
+  // Suggestions only break pairing rules, rotation limits or league rules when nothing else works;
+  // manual swaps can break them too
+  const renderLineupWarnings = (lineup: Player[], previousPeriods: Period[]) => {
+    const constraints = gameManager.getLineupConstraints();
+    const { pairingRules, rotationLimits, positionRules } = constraints;
+    const warnings = [
+      ...findBrokenRules(pairingRules, lineup, presentPlayers).map(rule =>
+        `Breaks rule: ${describeRule(rule, game.roster)}`
+      ),
+      ...findRotationViolations(rotationLimits, getPeriodShares(previousPeriods, constraints), lineup, presentPlayers).map(violation =>
+        `Over rotation limit: ${describeViolation(violation, game.roster)}`
+      ),
+      ...findBrokenPositionRules(lineup, positionRules).map(rule =>
+        `Position rule not met: ${describePositionRule(rule)}`
+      ),
+      ...describeLeagueProblems(lineup, previousPeriods).map(problem => `League rule: ${problem}`),
+    ];
+    if (warnings.length === 0) return null;
+
+    return (
+      <View style={styles.lineupWarning}>
+        {warnings.map(warning => (
+          <Text key={warning} style={styles.lineupWarningText}>
+            ⚠️ {warning}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
   const renderCurrentLineup = () => {
     if (!currentPeriod) return null;
 
+    // The position each player fills on court, from their list and the team's position rules
+    const courtPositions = assignPositions(currentPeriod.lineup, gameManager.getLineupConstraints().positionRules).positions;
+
     return (
       <View style={styles.lineupContainer}>
         <View style={styles.lineupHeader}>
@@ -91,33 +288,58 @@ export default function GameScreen({
           )}
         </View>
 
+        {renderPeriodClock()}
+
         <View style={styles.lineup}>
-          {currentPeriod.lineup.map((player) => (
-            <TouchableOpacity
-              key={player.id}
-              style={[
-                styles.lineupPlayer,
-                selectedPlayerOut === player.id && styles.selectedPlayer,
-              ]}
-              onPress={() => setSelectedPlayerOut(
-                selectedPlayerOut === player.id ? null : player.id
-              )}
-            >
-              <Text style={styles.lineupPlayerName}>
-                #{player.jerseyNumber} {player.name}
-              </Text>
-              <Text style={styles.lineupPlayerInfo}>
-                {player.position} • {formatTime(player.totalPlayingTime)}
-              </Text>
-            </TouchableOpacity>
-          ))}
+          {currentPeriod.lineup.map((player) => {
+            const fouls = gameManager.getFouls(player.id);
+            // One away from the limit
+            const isInFoulTrouble = foulLimit > 0 && fouls === foulLimit - 1;
+
+            return (
+              <TouchableOpacity
+                key={player.id}
+                style={[
+                  styles.lineupPlayer,
+                  selectedPlayerOut === player.id && styles.selectedPlayer,
+                ]}
+                onPress={() => setSelectedPlayerOut(
+                  selectedPlayerOut === player.id ? null : player.id
+                )}
+              >
+                <View style={styles.lineupPlayerDetails}>
+                  <Text style={styles.lineupPlayerName}>
+                    #{player.jerseyNumber} {player.name}
+                  </Text>
+                  <Text style={styles.lineupPlayerInfo}>
+                    {courtPositions.get(player.id)} • {formatTime(player.totalPlayingTime)}
+                    {fouls > 0 && (
+                      <Text style={isInFoulTrouble && styles.foulTrouble}>
+                        {' • '}{describeFouls(fouls, false)}
+                      </Text>
+                    )}
+                  </Text>
+                </View>
+                {!currentPeriod.isCompleted && (
+                  <TouchableOpacity style={styles.foulButton} onPress={() => onFoul(player.id)}>
+                    <Text style={styles.foulButtonText}>+ Foul</Text>
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
         </View>
+
+        {renderLineupWarnings(
+          currentPeriod.lineup,
+          game.periods.filter(p => p.number < currentPeriod.number)
+        )}
       </View>
     );
   };
 
   const renderBench = () => {
-    if (benchPlayers.length === 0) return null;
+    if (benchPlayers.length === 0 && fouledOutPlayers.length === 0) return null;
 
     return (
       <View style={styles.benchContainer}>
@@ -138,17 +360,99 @@ export default function GameScreen({
               </Text>
               <Text style={styles.benchPlayerInfo}>
                 {formatTime(player.totalPlayingTime)}
+                {gameManager.getFouls(player.id) > 0 && ` • ${describeFouls(gameManager.getFouls(player.id), false)}`}
               </Text>
             </TouchableOpacity>
           ))}
+          {fouledOutPlayers.map((player) => (
+            <View key={player.id} style={[styles.benchPlayer, styles.fouledOutPlayer]}>
+              <Text style={[styles.benchPlayerName, styles.fouledOutText]}>
+                #{player.jerseyNumber} {player.name}
+              </Text>
+              <Text style={styles.benchPlayerInfo}>
+                {formatTime(player.totalPlayingTime)} • {describeFouls(gameManager.getFouls(player.id), true)}
+              </Text>
+            </View>
+          ))}
         </View>
       </View>
     );
   };
 
+  const renderScores = (scores?: LineupScores) => {
+    if (!scores) return null;
+
+    const rows = [
+      { label: 'Playing time', value: scores.playingTime },
+      { label: 'Positions', value: scores.position },
+      { label: 'Skill balance', value: scores.skillBalance },
+      { label: 'Strength', value: scores.skillStrength },
+    ];
+
+    return (
+      <View style={styles.optionScores}>
+        {rows.map(row => (
+          <View key={row.label} style={styles.optionScoreRow}>
+            <Text style={styles.optionScoreLabel}>{row.label}</Text>
+            <Text style={styles.optionScoreValue}>{Math.round(row.value * 100)}%</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  // The suggestion and its alternatives side by side; any of them can start the period
+  const renderLineupOptions = (options: LineupSuggestion[]) => (
+    <ScrollView horizontal style={styles.optionList} contentContainerStyle={styles.optionListContent}>
+      {options.map((option, index) => (
+        <View key={option.players.map(p => p.id).join(',')} style={styles.optionCard}>
+          <Text style={styles.optionTitle}>{index === 0 ? 'Suggested' : `Option ${index + 1}`}</Text>
+          {option.players.map(player => (
+            <Text key={player.id} style={styles.optionPlayer}>
+              #{player.jerseyNumber} {player.name}
+            </Text>
+          ))}
+          {renderScores(option.scores)}
+          {describeLeagueProblems(option.players, game.periods).length > 0 && (
+            <Text style={styles.optionWarning}>⚠️ Breaks league rules</Text>
+          )}
+          <TouchableOpacity
+            style={styles.optionButton}
+            onPress={() => handleStartLineup(option)}
+          >
+            <Text style={styles.optionButtonText}>Start With This</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  // Tapping a player shows why the suggestion puts them on court or on the bench
+  const renderExplainablePlayer = (player: Player, style: object) => {
+    const reason = suggestion?.reasons?.[player.id];
+    const isExplained = explainedPlayerId === player.id;
+
+    return (
+      <TouchableOpacity
+        key={player.id}
+        style={style}
+        disabled={!reason}
+        onPress={() => setExplainedPlayerId(isExplained ? null : player.id)}
+      >
+        <Text style={styles.suggestedPlayerName}>
+          #{player.jerseyNumber} {player.name}
+        </Text>
+        {isExplained && <Text style={styles.reasonText}>{reason}</Text>}
+      </TouchableOpacity>
+    );
+  };
+
   const renderSuggestion = () => {
     if (!suggestion || currentPeriod) return null;
 
+    const alternatives = suggestion.alternatives || [];
+    const suggestedBench = presentPlayers.filter(p => !suggestion.players.some(sp => sp.id === p.id));
+
     return (
       <View style={styles.suggestionContainer}>
         <Text style={styles.suggestionTitle}>Suggested Lineup</Text>
@@ -162,38 +466,161 @@ export default function GameScreen({
         </View>
 
         <View style={styles.suggestedLineup}>
-          {suggestion.players.map((player) => (
-            <View key={player.id} style={styles.suggestedPlayer}>
-              <Text style={styles.suggestedPlayerName}>
-                #{player.jerseyNumber} {player.name}
-              </Text>
-            </View>
-          ))}
+          {suggestion.players.map(player => renderExplainablePlayer(player, styles.suggestedPlayer))}
         </View>
 
+        {suggestion.reasons && suggestedBench.length > 0 && (
+          <View style={styles.suggestedLineup}>
+            <Text style={styles.benchHint}>On the bench (tap anyone to see why)</Text>
+            {suggestedBench.map(player => renderExplainablePlayer(player, styles.suggestedBenchPlayer))}
+          </View>
+        )}
+
+        {renderLineupWarnings(suggestion.players, game.periods)}
+
         <TouchableOpacity
           style={styles.acceptButton}
-          onPress={() => {
-            const period: Period = {
-              id: `period-${game.periods.length + 1}`,
-              number: game.periods.length + 1,
-              lineup: suggestion.players,
-              isCompleted: false,
-            };
-            onStartPeriod(period);
-          }}
+          onPress={() => handleStartLineup(suggestion)}
         >
           <Text style={styles.acceptButtonText}>Start This Period</Text>
         </TouchableOpacity>
+
+        {alternatives.length > 0 && (
+          <TouchableOpacity style={styles.anotherButton} onPress={() => setShowLineupOptions(!showLineupOptions)}>
+            <Text style={styles.anotherButtonText}>
+              {showLineupOptions ? 'Hide Options' : `Compare ${alternatives.length + 1} Options`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {showLineupOptions && alternatives.length > 0 && renderLineupOptions([suggestion, ...alternatives])}
+
+        <TouchableOpacity style={styles.anotherButton} onPress={onGenerateAnotherLineup}>
+          <Text style={styles.anotherButtonText}>Generate Another</Text>
+        </TouchableOpacity>
       </View>
     );
   };
 
+  const renderRotationPlan = () => {
+    const upcoming = (game.rotationPlan || []).filter(p => p.number > game.periods.length);
+
+    if (!game.rotationPlan) {
+      return (
+        <TouchableOpacity style={styles.planButton} onPress={onPlanRotation}>
+          <Text style={styles.planButtonText}>Plan Full Game Rotation</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <View style={styles.planContainer}>
+        <View style={styles.lineupHeader}>
+          <Text style={styles.lineupTitle}>Rotation Plan</Text>
+          <View style={styles.planActions}>
+            <TouchableOpacity onPress={onPlanRotation}>
+              <Text style={styles.planActionText}>Re-plan</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onClearRotationPlan}>
+              <Text style={styles.planActionText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {upcoming.length === 0 ? (
+          <Text style={styles.planEmpty}>All planned periods have been played</Text>
+        ) : (
+          upcoming.map(planned => (
+            <View key={planned.number} style={styles.planRow}>
+              <Text style={styles.planPeriod}>P{planned.number}</Text>
+              <View style={styles.planPlayers}>
+                {planned.players.map(player => (
+                  <Text key={player.id} style={styles.planPlayer}>
+                    #{player.jerseyNumber} {player.name.split(' ')[0]}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderFinalSummary = () => {
+    const summary = gameManager.getFinalSummary();
+    const periodReport = gameManager.getPeriodReport();
+    const balanceColor = summary.playingTimeBalance > 0.8 ? '#4CAF50' : summary.playingTimeBalance > 0.6 ? '#FF9800' : '#f44336';
+
+    return (
+      <View style={styles.summaryContainer}>
+        <Text style={styles.summaryTitle}>Final Summary</Text>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Periods Played:</Text>
+          <Text style={styles.summaryValue}>{summary.completedPeriods}</Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Periods per Player:</Text>
+          <Text style={styles.summaryValue}>
+            {formatPeriods(summary.minPeriods) === formatPeriods(summary.maxPeriods)
+              ? formatPeriods(summary.minPeriods)
+              : `${formatPeriods(summary.minPeriods)} – ${formatPeriods(summary.maxPeriods)}`}
+          </Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Playing Time Balance:</Text>
+          <Text style={[styles.summaryValue, { color: balanceColor }]}>
+            {Math.round(summary.playingTimeBalance * 100)}%
+          </Text>
+        </View>
+
+        <View style={styles.summaryPlayers}>
+          {periodReport.map(item => (
+            <View key={item.player.id} style={styles.summaryPlayerRow}>
+              <Text style={styles.summaryPlayerName}>
+                #{item.player.jerseyNumber} {item.player.name}
+              </Text>
+              <Text style={styles.summaryPlayerInfo}>
+                {formatPeriods(item.periodsPlayed)} periods • {formatTime(item.player.totalPlayingTime)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.returnButton} onPress={onReturnToTeams}>
+          <Text style={styles.returnButtonText}>Done – Back to Teams</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  if (game.isFinished) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <ScrollView style={styles.container}>
+        {renderPeriodProgress()}
+        {renderFinalSummary()}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  const canAddOvertime = !currentPeriod && gameManager.canAddOvertimePeriod() &&
+    game.periods.length - game.settings.periodsCount < game.settings.overtimePeriods;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView style={styles.container}>
       {renderPeriodProgress()}
 
+      <UndoBar
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={onUndo}
+        onRedo={onRedo}
+      />
+
       {renderCurrentLineup()}
       {renderBench()}
       {renderSuggestion()}
@@ -206,11 +633,25 @@ export default function GameScreen({
         </TouchableOpacity>
       )}
 
+      {canAddOvertime && (
+        <TouchableOpacity style={styles.overtimeButton} onPress={onAddOvertime}>
+          <Text style={styles.overtimeButtonText}>Add Overtime Period</Text>
+        </TouchableOpacity>
+      )}
+
+      {renderRotationPlan()}
+
       {selectedPlayerOut && (
         <Text style={styles.swapInstructions}>
           Tap a bench player to swap with the selected player
         </Text>
       )}
+
+      {game.periods.some(p => p.isCompleted) && (
+        <TouchableOpacity style={styles.endGameButton} onPress={handleEndGame}>
+          <Text style={styles.endGameButtonText}>End Game</Text>
+        </TouchableOpacity>
+      )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -250,6 +691,18 @@ const styles = StyleSheet.create({
   completedSegment: {
     backgroundColor: '#4CAF50',
   },
+  segmentStart: {
+    marginLeft: 6,
+  },
+  segmentLabels: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  segmentLabel: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+  },
   pendingSegment: {
     backgroundColor: '#e0e0e0',
   },
@@ -285,16 +738,88 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  clockContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#263238',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  clockTime: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#fff',
+    fontVariant: ['tabular-nums'],
+  },
+  clockExpired: {
+    color: '#f44336',
+  },
+  clockLabel: {
+    fontSize: 12,
+    color: '#b0bec5',
+    marginTop: 2,
+  },
+  clockButton: {
+    backgroundColor: '#4CAF50',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  clockButtonRunning: {
+    backgroundColor: '#FF9800',
+  },
+  clockButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   lineup: {
     gap: 8,
   },
+  lineupWarning: {
+    backgroundColor: '#fff3e0',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#FF9800',
+    gap: 4,
+  },
+  lineupWarningText: {
+    fontSize: 14,
+    color: '#e65100',
+  },
   lineupPlayer: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 12,
     backgroundColor: '#f8f9fa',
     borderRadius: 8,
     borderWidth: 2,
     borderColor: 'transparent',
   },
+  lineupPlayerDetails: {
+    flex: 1,
+  },
+  foulButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#f44336',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  foulButtonText: {
+    color: '#f44336',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  foulTrouble: {
+    color: '#e65100',
+    fontWeight: 'bold',
+  },
   selectedPlayer: {
     borderColor: '#2196F3',
     backgroundColor: '#e3f2fd',
@@ -341,6 +866,13 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  fouledOutPlayer: {
+    backgroundColor: '#ffebee',
+  },
+  fouledOutText: {
+    color: '#c62828',
+    textDecorationLine: 'line-through',
+  },
   suggestionContainer: {
     backgroundColor: '#fff',
     padding: 16,
@@ -374,6 +906,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  suggestedBenchPlayer: {
+    padding: 8,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 6,
+  },
+  benchHint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  reasonText: {
+    fontSize: 13,
+    color: '#555',
+    marginTop: 4,
+  },
   acceptButton: {
     backgroundColor: '#4CAF50',
     padding: 16,
@@ -385,6 +931,79 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  anotherButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  anotherButtonText: {
+    color: '#2196F3',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  optionList: {
+    marginTop: 12,
+  },
+  optionListContent: {
+    gap: 8,
+  },
+  optionCard: {
+    width: 200,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#f9f9f9',
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  optionPlayer: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 2,
+  },
+  optionScores: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  optionScoreRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  optionScoreLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  optionScoreValue: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  optionWarning: {
+    fontSize: 12,
+    color: '#e65100',
+    marginTop: 6,
+  },
+  optionButton: {
+    backgroundColor: '#4CAF50',
+    padding: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  optionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   generateButton: {
     backgroundColor: '#2196F3',
     padding: 20,
@@ -397,6 +1016,80 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  overtimeButton: {
+    backgroundColor: '#FF9800',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  overtimeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  planButton: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+    borderWidth: 2,
+    borderColor: '#2196F3',
+  },
+  planButtonText: {
+    color: '#2196F3',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  planContainer: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  planActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  planActionText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  planEmpty: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  planPeriod: {
+    width: 36,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    paddingTop: 2,
+  },
+  planPlayers: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  planPlayer: {
+    fontSize: 12,
+    backgroundColor: '#e3f2fd',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    color: '#333',
+  },
   swapInstructions: {
     textAlign: 'center',
     fontSize: 14,
@@ -404,4 +1097,75 @@ const styles = StyleSheet.create({
     marginTop: 16,
     fontStyle: 'italic',
   },
+  endGameButton: {
+    backgroundColor: '#f44336',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 32,
+  },
+  endGameButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  summaryContainer: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#333',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryPlayers: {
+    marginTop: 12,
+    gap: 6,
+  },
+  summaryPlayerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 8,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 6,
+  },
+  summaryPlayerName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  summaryPlayerInfo: {
+    fontSize: 12,
+    color: '#666',
+  },
+  returnButton: {
+    backgroundColor: '#2196F3',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  returnButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Game, Team } from '../types';
+import StatsScreen from './StatsScreen';
+
+interface HistoryScreenProps {
+  team?: Team;
+  games: Game[];
+  onBack: () => void;
+}
+
+export default function HistoryScreen({
+  team,
+  games,
+  onBack,
+}: HistoryScreenProps) {
+  const [selectedGame, setSelectedGame] = useState<Game | null>(null);
+
+  if (selectedGame) {
+    // Past games get the same reports as the live game
+    return <StatsScreen game={selectedGame} onBack={() => setSelectedGame(null)} />;
+  }
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const renderGameCard = (game: Game) => {
+    const completedPeriods = game.periods.filter(p => p.isCompleted).length;
+    const presentPlayers = game.roster.filter(p => p.isPresent).length;
+
+    return (
+      <TouchableOpacity
+        key={game.id}
+        style={[styles.gameCard, team && { borderLeftColor: team.primaryColor }]}
+        onPress={() => setSelectedGame(game)}
+      >
+        <View style={styles.gameInfo}>
+          <Text style={styles.gameDate}>{formatDate(game.date)}</Text>
+          <Text style={styles.gameStats}>
+            {completedPeriods} of {game.settings.periodsCount} periods • {presentPlayers} players
+          </Text>
+        </View>
+        <Text style={styles.chevron}>›</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.titleContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Teams</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Past Games</Text>
+        </View>
+        <Text style={styles.subtitle}>
+          {team?.name || 'Team'} • {games.length} {games.length === 1 ? 'game' : 'games'}
+        </Text>
+      </View>
+
+      <ScrollView style={styles.gameList}>
+        {games.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No Past Games</Text>
+            <Text style={styles.emptySubtitle}>
+              Finished games will show up here
+            </Text>
+          </View>
+        ) : (
+          games.map(renderGameCard)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 16,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  backButton: {
+    backgroundColor: '#6c757d',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 4,
+  },
+  gameList: {
+    flex: 1,
+  },
+  gameCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#2196F3',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gameDate: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  gameStats: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  chevron: {
+    fontSize: 24,
+    color: '#999',
+    marginLeft: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
\ No newline at end of file
@@ -6,10 +6,19 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Share,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Player } from '../types';
+import { Player, LineupStrategyId, PlayerAttendance } from '../types';
 import PlayerEditModal from '../components/PlayerEditModal';
+import UndoBar from '../components/UndoBar';
+import RosterImportModal from '../components/RosterImportModal';
+import StrategyPicker from '../components/StrategyPicker';
+import { lineupStrategies } from '../utils/lineupStrategies';
+import { exportRosterCsv } from '../utils/rosterCsv';
+import { formatPositions } from '../utils/positionRules';
+import { SeasonLedger, getMinutesOwed, describeMinutesOwed } from '../utils/seasonLedger';
 
 interface RosterScreenProps {
   players: Player[];
@@ -18,7 +27,19 @@ interface RosterScreenProps {
   onPlayerUpdate?: (player: Player) => void;
   onPlayerAdd?: (player: Player) => void;
   onPlayerDelete?: (playerId: string) => void;
+  onPlayersImport?: (players: Player[], replaceRoster: boolean) => void;
+  lineupStrategy?: LineupStrategyId;
+  onLineupStrategyChange?: (strategyId: LineupStrategyId) => void;
+  seasonLedger?: SeasonLedger; // shown before tip-off
+  attendance?: { [playerId: string]: PlayerAttendance }; // arrivals and departures, once the game has started
+  gameStartedAt?: number;
+  payDownSeasonDebt?: boolean;
+  onPayDownSeasonDebtChange?: (payDown: boolean) => void;
   onBackToTeams?: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 export default function RosterScreen({
@@ -28,12 +49,26 @@ export default function RosterScreen({
   onPlayerUpdate,
   onPlayerAdd,
   onPlayerDelete,
-  onBackToTeams
+  onPlayersImport,
+  lineupStrategy,
+  onLineupStrategyChange,
+  seasonLedger,
+  attendance,
+  gameStartedAt,
+  payDownSeasonDebt,
+  onPayDownSeasonDebtChange,
+  onBackToTeams,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }: RosterScreenProps) {
   const presentPlayers = players.filter(p => p.isPresent);
   const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showStrategyPicker, setShowStrategyPicker] = useState(false);
 
   const handleStartGame = () => {
     if (presentPlayers.length < 5) {
@@ -81,7 +116,52 @@ export default function RosterScreen({
     setEditingPlayer(null);
   };
 
+  const handleImportPlayers = (importedPlayers: Player[], replaceRoster: boolean) => {
+    onPlayersImport?.(importedPlayers, replaceRoster);
+    setShowImportModal(false);
+  };
+
+  const handleExportRoster = () => {
+    Share.share({ title: 'Team Roster', message: exportRosterCsv(players) }).catch(error => {
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'The roster could not be shared');
+    });
+  };
+
   const existingJerseyNumbers = players.map(p => p.jerseyNumber);
+  const hasSeasonHistory = !!seasonLedger && Object.keys(seasonLedger).length > 0;
+
+  const formatClockTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  };
+
+  // Players there from tip-off show nothing
+  const renderAttendance = (player: Player) => {
+    const record = attendance?.[player.id];
+    if (!record) return null;
+
+    if (record.departedAt !== undefined) {
+      return <Text style={styles.attendanceText}>Left at {formatClockTime(record.departedAt)}</Text>;
+    }
+    if (record.arrivedAt !== undefined && record.arrivedAt !== gameStartedAt) {
+      return <Text style={styles.attendanceText}>Arrived at {formatClockTime(record.arrivedAt)}</Text>;
+    }
+    return null;
+  };
+
+  const renderSeasonDebt = (player: Player) => {
+    if (!seasonLedger?.[player.id]) return null;
+
+    const minutesOwed = getMinutesOwed(seasonLedger, player.id);
+    return (
+      <Text style={[
+        styles.seasonDebt,
+        minutesOwed >= 0.05 && styles.seasonDebtOwed,
+        minutesOwed <= -0.05 && styles.seasonDebtAhead,
+      ]}>
+        Season: {describeMinutesOwed(minutesOwed)} over {seasonLedger[player.id].gamesAttended} games
+      </Text>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -106,8 +186,55 @@ export default function RosterScreen({
         <Text style={styles.subtitle}>
           {presentPlayers.length} of {players.length} players present
         </Text>
+        <View style={styles.csvButtons}>
+          {onPlayersImport && (
+            <TouchableOpacity style={styles.csvButton} onPress={() => setShowImportModal(true)}>
+              <Text style={styles.csvButtonText}>Import CSV</Text>
+            </TouchableOpacity>
+          )}
+          {players.length > 0 && (
+            <TouchableOpacity style={styles.csvButton} onPress={handleExportRoster}>
+              <Text style={styles.csvButtonText}>Export CSV</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {onLineupStrategyChange && (
+          <View style={styles.strategyContainer}>
+            <TouchableOpacity onPress={() => setShowStrategyPicker(!showStrategyPicker)}>
+              <Text style={styles.strategyText}>
+                Lineups: {lineupStrategies.get(lineupStrategy).name} {showStrategyPicker ? '▴' : '▾'}
+              </Text>
+            </TouchableOpacity>
+            {showStrategyPicker && (
+              <StrategyPicker
+                selected={lineupStrategy}
+                onSelect={strategyId => {
+                  onLineupStrategyChange(strategyId);
+                  setShowStrategyPicker(false);
+                }}
+              />
+            )}
+          </View>
+        )}
+
+        {onPayDownSeasonDebtChange && hasSeasonHistory && (
+          <View style={styles.debtToggle}>
+            <Text style={styles.debtToggleText}>Pay down season debt this game</Text>
+            <Switch value={!!payDownSeasonDebt} onValueChange={onPayDownSeasonDebtChange} />
+          </View>
+        )}
       </View>
 
+      {onUndo && onRedo && (
+        <UndoBar
+          undoLabel={undoLabel || null}
+          redoLabel={redoLabel || null}
+          onUndo={onUndo}
+          onRedo={onRedo}
+        />
+      )}
+
       <ScrollView style={styles.playerList}>
         {players.map((player) => (
           <View
@@ -126,8 +253,10 @@ export default function RosterScreen({
                   #{player.jerseyNumber} {player.name}
                 </Text>
                 <Text style={styles.playerDetails}>
-                  {player.position} • Skill: {player.skillLevel}/5
+                  {formatPositions(player)} • Skill: {player.skillLevel}/5
                 </Text>
+                {renderSeasonDebt(player)}
+                {renderAttendance(player)}
               </View>
               <View style={[
                 styles.statusIndicator,
@@ -178,6 +307,13 @@ export default function RosterScreen({
         onCancel={handleCancelEdit}
         existingJerseyNumbers={existingJerseyNumbers}
       />
+
+      <RosterImportModal
+        visible={showImportModal}
+        existingPlayers={players}
+        onImport={handleImportPlayers}
+        onCancel={() => setShowImportModal(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -229,6 +365,42 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  strategyContainer: {
+    marginTop: 12,
+    gap: 8,
+  },
+  strategyText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2196F3',
+  },
+  debtToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  debtToggleText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  csvButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  csvButton: {
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  csvButtonText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   playerList: {
     flex: 1,
   },
@@ -276,6 +448,22 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  attendanceText: {
+    fontSize: 12,
+    color: '#2196F3',
+    marginTop: 2,
+  },
+  seasonDebt: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  seasonDebtOwed: {
+    color: '#e65100',
+  },
+  seasonDebtAhead: {
+    color: '#4CAF50',
+  },
   statusIndicator: {
     width: 40,
     height: 40,
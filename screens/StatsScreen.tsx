@@ -4,53 +4,70 @@ import {
   Text,
   StyleSheet,
   ScrollView,
+  TouchableOpacity,
+  Share,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Player, Game } from '../types';
+import { Player, Game, Period } from '../types';
+import { GameManager } from '../utils/gameManager';
+import { formatPlayByPlay } from '../utils/gameLog';
+import { formatPositions } from '../utils/positionRules';
+import { getCatchUpPolicyName } from '../utils/catchUpPolicy';
+import { GameSegment, getSegmentFormatName, hasSegments } from '../utils/gameSegments';
+import { describeFouls } from '../utils/fouls';
 
 interface StatsScreenProps {
   game: Game;
+  onBack?: () => void;
 }
 
-export default function StatsScreen({ game }: StatsScreenProps) {
+export default function StatsScreen({ game, onBack }: StatsScreenProps) {
   const formatTime = (minutes: number) => {
     return `${Math.floor(minutes)}:${String(Math.round((minutes % 1) * 60)).padStart(2, '0')}`;
   };
 
-  const calculatePlayingTimeReport = () => {
-    const totalGameTime = game.settings.periodsCount * game.settings.periodDuration;
-    const presentPlayers = game.roster.filter(p => p.isPresent).length;
-    const playersPerPeriod = game.settings.playersOnCourt;
-
-    const targetTimePerPlayer = (totalGameTime * playersPerPeriod) / presentPlayers;
-
-    return game.roster
-      .filter(p => p.isPresent)
-      .map(player => ({
-        player,
-        minutes: player.totalPlayingTime,
-        target: targetTimePerPlayer,
-        difference: player.totalPlayingTime - targetTimePerPlayer,
-      }))
-      .sort((a, b) => a.difference - b.difference);
+  const formatPeriods = (periods: number) => {
+    // Partial periods come from mid-period substitutions
+    const rounded = Math.round(periods * 10) / 10;
+    return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
   };
 
-  const playingTimeReport = calculatePlayingTimeReport();
-
-  // Import GameManager to get period-based stats
-  const gameManager = React.useMemo(() => {
-    const { GameManager } = require('../utils/gameManager');
-    return new GameManager(game);
-  }, [game]);
+  const gameManager = React.useMemo(() => new GameManager(game), [game]);
 
+  const playingTimeReport = gameManager.getPlayingTimeReport();
   const periodReport = gameManager.getPeriodReport();
   const completedPeriods = game.periods.filter(p => p.isCompleted).length;
+  const playByPlay = formatPlayByPlay(game);
+
+  const fouledOutCount = playingTimeReport.filter(item => gameManager.isFouledOut(item.player.id)).length;
+
+  // Fouled-out players are held to the time they got, so their cards are never marked over or under
+  const renderFoulNote = (player: Player) => {
+    const fouls = gameManager.getFouls(player.id);
+    if (fouls === 0) return null;
+
+    const isFouledOut = gameManager.isFouledOut(player.id);
+    return (
+      <Text style={[styles.foulNote, isFouledOut && styles.fouledOutNote]}>
+        {describeFouls(fouls, isFouledOut)}
+      </Text>
+    );
+  };
+
+  const handleSharePlayByPlay = () => {
+    const title = `Game on ${new Date(game.date).toLocaleDateString()}`;
+    Share.share({ title, message: [title, '', ...playByPlay].join('\n') }).catch(error => {
+      Alert.alert('Share Failed', error instanceof Error ? error.message : 'The play-by-play could not be shared');
+    });
+  };
 
   const renderPlayingTimeCard = (item: {
     player: Player;
     minutes: number;
     target: number;
     difference: number;
+    catchUpCredit: number;
   }) => {
     const isOver = item.difference > 0;
     const isUnder = item.difference < -1;
@@ -69,8 +86,14 @@ export default function StatsScreen({ game }: StatsScreenProps) {
             #{item.player.jerseyNumber} {item.player.name}
           </Text>
           <Text style={styles.playerPosition}>
-            {item.player.position} • Skill: {item.player.skillLevel}/5
+            {formatPositions(item.player)} • Skill: {item.player.skillLevel}/5
           </Text>
+          {item.catchUpCredit > 0 && (
+            <Text style={styles.catchUpNote}>
+              Arrived late: {formatTime(item.catchUpCredit)} of missed time counted for scheduling
+            </Text>
+          )}
+          {renderFoulNote(item.player)}
         </View>
 
         <View style={styles.timeInfo}>
@@ -97,9 +120,12 @@ export default function StatsScreen({ game }: StatsScreenProps) {
     periodsPlayed: number;
     targetPeriods: number;
     difference: number;
+    segments: Array<{ segment: GameSegment; periodsPlayed: number; targetPeriods: number }>;
   }) => {
     const isOver = item.difference > 0.5;
     const isUnder = item.difference < -0.5;
+    // Off by more than half a period in any half or quarter
+    const isSegmentUneven = item.segments.some(s => Math.abs(s.periodsPlayed - s.targetPeriods) > 0.5);
 
     return (
       <View
@@ -115,13 +141,19 @@ export default function StatsScreen({ game }: StatsScreenProps) {
             #{item.player.jerseyNumber} {item.player.name}
           </Text>
           <Text style={styles.playerPosition}>
-            {item.player.position} • Skill: {item.player.skillLevel}/5
+            {formatPositions(item.player)} • Skill: {item.player.skillLevel}/5
           </Text>
+          {item.segments.length > 0 && (
+            <Text style={[styles.segmentNote, isSegmentUneven && styles.segmentNoteUneven]}>
+              {item.segments.map(s => `${s.segment.name}: ${formatPeriods(s.periodsPlayed)}`).join(' • ')}
+            </Text>
+          )}
+          {renderFoulNote(item.player)}
         </View>
 
         <View style={styles.timeInfo}>
           <Text style={styles.actualTime}>
-            {item.periodsPlayed} periods
+            {formatPeriods(item.periodsPlayed)} periods
           </Text>
           <Text style={styles.targetTime}>
             Target: {item.targetPeriods.toFixed(1)}
@@ -138,10 +170,32 @@ export default function StatsScreen({ game }: StatsScreenProps) {
     );
   };
 
+  const renderPeriodPlayers = (period: Period) => {
+    const periodLength = period.actualDuration || game.settings.periodDuration;
+    const stintMinutes = gameManager.getStintMinutes(period);
+
+    return Array.from(stintMinutes.entries()).map(([playerId, minutes]) => {
+      const player = game.roster.find(p => p.id === playerId);
+      if (!player) return null;
+
+      // Show the time on court for anyone who only played part of the period
+      const isPartial = minutes < periodLength - 0.01;
+
+      return (
+        <Text key={playerId} style={[styles.periodPlayer, isPartial && styles.partialPlayer]}>
+          #{player.jerseyNumber} {player.name}
+          {isPartial && ` (${formatTime(minutes)})`}
+        </Text>
+      );
+    });
+  };
+
   const renderGameSummary = () => {
     const totalPeriods = game.settings.periodsCount;
-    const averagePlayingTime = playingTimeReport.reduce((sum, item) => sum + item.minutes, 0) / playingTimeReport.length;
-    const timeVariance = playingTimeReport.reduce((sum, item) => sum + Math.pow(item.minutes - averagePlayingTime, 2), 0) / playingTimeReport.length;
+    // Fouled-out players are left out of the balance, the same as in the fairness targets
+    const balanceReport = playingTimeReport.filter(item => !gameManager.isFouledOut(item.player.id));
+    const averagePlayingTime = balanceReport.reduce((sum, item) => sum + item.minutes, 0) / balanceReport.length;
+    const timeVariance = balanceReport.reduce((sum, item) => sum + Math.pow(item.minutes - averagePlayingTime, 2), 0) / balanceReport.length;
     const timeBalance = Math.max(0, 1 - (Math.sqrt(timeVariance) / averagePlayingTime));
 
     return (
@@ -158,6 +212,13 @@ export default function StatsScreen({ game }: StatsScreenProps) {
           <Text style={styles.summaryValue}>{playingTimeReport.length}</Text>
         </View>
 
+        {fouledOutCount > 0 && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Fouled Out:</Text>
+            <Text style={styles.summaryValue}>{fouledOutCount}</Text>
+          </View>
+        )}
+
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Playing Time Balance:</Text>
           <Text style={[
@@ -172,6 +233,25 @@ export default function StatsScreen({ game }: StatsScreenProps) {
           <Text style={styles.summaryLabel}>Average Playing Time:</Text>
           <Text style={styles.summaryValue}>{formatTime(averagePlayingTime)}</Text>
         </View>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Lineup Strategy:</Text>
+          <Text style={styles.summaryValue}>
+            {gameManager.getLineupStrategy().name}{game.rotationPlan ? ' + rotation plan' : ''}
+          </Text>
+        </View>
+
+        {hasSegments(game.settings) && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Game Format:</Text>
+            <Text style={styles.summaryValue}>{getSegmentFormatName(game.settings)}</Text>
+          </View>
+        )}
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>Late Arrival Catch-up:</Text>
+          <Text style={styles.summaryValue}>{getCatchUpPolicyName(game.settings.catchUpPolicy)}</Text>
+        </View>
       </View>
     );
   };
@@ -179,6 +259,17 @@ export default function StatsScreen({ game }: StatsScreenProps) {
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView style={styles.container}>
+      {onBack && (
+        <View style={styles.backRow}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Past Games</Text>
+          </TouchableOpacity>
+          <Text style={styles.gameDate}>
+            {new Date(game.date).toLocaleDateString()}
+          </Text>
+        </View>
+      )}
+
       {renderGameSummary()}
 
       <View style={styles.playingTimeContainer}>
@@ -213,16 +304,28 @@ export default function StatsScreen({ game }: StatsScreenProps) {
                   }
                 </Text>
                 <View style={styles.periodLineup}>
-                  {period.lineup.map((player) => (
-                    <Text key={player.id} style={styles.periodPlayer}>
-                      #{player.jerseyNumber} {player.name}
-                    </Text>
-                  ))}
+                  {renderPeriodPlayers(period)}
                 </View>
               </View>
             ))}
         </View>
       )}
+
+      {playByPlay.length > 0 && (
+        <View style={styles.periodsContainer}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Play-by-Play</Text>
+            <TouchableOpacity style={styles.shareButton} onPress={handleSharePlayByPlay}>
+              <Text style={styles.shareButtonText}>Share</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.periodCard}>
+            {playByPlay.map((line, index) => (
+              <Text key={index} style={styles.logLine}>{line}</Text>
+            ))}
+          </View>
+        </View>
+      )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -237,6 +340,28 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  backRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    backgroundColor: '#6c757d',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  gameDate: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
   summaryContainer: {
     backgroundColor: '#fff',
     padding: 16,
@@ -306,6 +431,28 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  segmentNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  segmentNoteUneven: {
+    color: '#e65100',
+  },
+  catchUpNote: {
+    fontSize: 12,
+    color: '#e65100',
+    marginTop: 2,
+  },
+  foulNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  fouledOutNote: {
+    color: '#c62828',
+    fontWeight: 'bold',
+  },
   timeInfo: {
     alignItems: 'flex-end',
   },
@@ -358,4 +505,30 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     color: '#666',
   },
+  partialPlayer: {
+    backgroundColor: '#fff3e0',
+    color: '#e65100',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  shareButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  shareButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  logLine: {
+    fontSize: 13,
+    color: '#333',
+    paddingVertical: 2,
+  },
 });
\ No newline at end of file
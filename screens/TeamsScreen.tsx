@@ -18,6 +18,12 @@ interface TeamsScreenProps {
   onCreateTeam: () => void;
   onUpgradeToPremium: () => void;
   onGoToRoster?: () => void;
+  onShowHistory?: () => void;
+  onBackup?: () => void;
+  onRestore?: () => void;
+  resumeLabel?: string;
+  onResumeGame?: () => void;
+  onDiscardGame?: () => void;
 }
 
 export default function TeamsScreen({
@@ -27,6 +33,12 @@ export default function TeamsScreen({
   onCreateTeam,
   onUpgradeToPremium,
   onGoToRoster,
+  onShowHistory,
+  onBackup,
+  onRestore,
+  resumeLabel,
+  onResumeGame,
+  onDiscardGame,
 }: TeamsScreenProps) {
   const canCreateMoreTeams = coachProfile.isPremium || coachProfile.teams.length === 0;
 
@@ -113,6 +125,35 @@ export default function TeamsScreen({
     );
   };
 
+  const handleDiscardGame = () => {
+    Alert.alert(
+      'Discard Game',
+      'Stop the interrupted game? Completed periods are kept in Past Games.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onDiscardGame },
+      ]
+    );
+  };
+
+  const renderResumeBanner = () => {
+    if (!resumeLabel) return null;
+
+    return (
+      <View style={styles.resumeBanner}>
+        <Text style={styles.resumeTitle}>Game In Progress</Text>
+        <TouchableOpacity style={styles.resumeButton} onPress={onResumeGame}>
+          <Text style={styles.resumeButtonText}>▶ {resumeLabel}</Text>
+        </TouchableOpacity>
+        {onDiscardGame && (
+          <TouchableOpacity style={styles.discardButton} onPress={handleDiscardGame}>
+            <Text style={styles.discardButtonText}>Discard game</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderPremiumBadge = () => {
     if (coachProfile.isPremium) {
       return (
@@ -141,6 +182,8 @@ export default function TeamsScreen({
         </Text>
       </View>
 
+      {renderResumeBanner()}
+
       <ScrollView style={styles.teamsList}>
         {coachProfile.teams.length === 0 ? (
           <View style={styles.emptyState}>
@@ -156,7 +199,7 @@ export default function TeamsScreen({
 
       {renderCreateTeamButton()}
 
-      {coachProfile.activeTeamId && onGoToRoster && (
+      {coachProfile.activeTeamId && onGoToRoster && !resumeLabel && (
         <TouchableOpacity style={styles.goToRosterButton} onPress={onGoToRoster}>
           <Text style={styles.goToRosterText}>
             🏀 Go to {coachProfile.teams.find(t => t.id === coachProfile.activeTeamId)?.name || 'Team'} Roster
@@ -164,6 +207,25 @@ export default function TeamsScreen({
         </TouchableOpacity>
       )}
 
+      {coachProfile.activeTeamId && onShowHistory && (
+        <TouchableOpacity style={styles.historyButton} onPress={onShowHistory}>
+          <Text style={styles.historyButtonText}>📅 Past Games</Text>
+        </TouchableOpacity>
+      )}
+
+      {onBackup && onRestore && (
+        <View style={styles.backupRow}>
+          {coachProfile.teams.length > 0 && (
+            <TouchableOpacity style={[styles.historyButton, styles.backupButton]} onPress={onBackup}>
+              <Text style={styles.historyButtonText}>💾 Back Up</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={[styles.historyButton, styles.backupButton]} onPress={onRestore}>
+            <Text style={styles.historyButtonText}>♻️ Restore</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {coachProfile.isPremium && (
         <View style={styles.premiumFeatures}>
           <Text style={styles.featuresTitle}>Premium Features Active:</Text>
@@ -223,6 +285,40 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  resumeBanner: {
+    backgroundColor: '#fff3e0',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 2,
+    borderColor: '#FF9800',
+  },
+  resumeTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#e65100',
+    marginBottom: 8,
+  },
+  resumeButton: {
+    backgroundColor: '#FF9800',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  resumeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  discardButton: {
+    alignItems: 'center',
+    paddingTop: 10,
+  },
+  discardButtonText: {
+    color: '#666',
+    fontSize: 14,
+  },
   teamsList: {
     flex: 1,
   },
@@ -372,6 +468,27 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  historyButton: {
+    backgroundColor: '#fff',
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#2196F3',
+  },
+  historyButtonText: {
+    color: '#2196F3',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  backupRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  backupButton: {
+    flex: 1,
+  },
   premiumFeatures: {
     backgroundColor: '#e8f5e8',
     padding: 16,
@@ -1,18 +1,83 @@
+export type Position = 'Guard' | 'Forward' | 'Center' | 'Any';
+export type CourtPosition = Exclude<Position, 'Any'>;
+
 export interface Player {
   id: string;
   name: string;
   jerseyNumber: number;
   skillLevel: number; // 1-5 scale
-  position: 'Guard' | 'Forward' | 'Center' | 'Any';
+  positions: Position[]; // most preferred first; 'Any' covers every position not listed before it
   isPresent: boolean;
   totalPlayingTime: number; // in minutes
 }
 
-export interface GameSettings {
+// Longest run of periods in a row a player may sit or play; unset or 0 means no limit
+export interface RotationLimits {
+  maxConsecutiveBench?: number;
+  maxConsecutivePlay?: number;
+}
+
+export interface GameSettings extends RotationLimits {
   periodsCount: number; // default 8
   periodDuration: number; // in minutes, default 4
   overtimePeriods: number; // default 2
   playersOnCourt: number; // default 5
+  lineupStrategy?: LineupStrategyId; // which strategy suggests lineups, default 'strict'
+  payDownSeasonDebt?: boolean; // give players behind on season court time extra this game
+  catchUpPolicy?: CatchUpPolicy; // how much of the time a late arrival missed they get back, default 'partial'
+  segmentsCount?: number; // halves (2) or quarters (4) the regular periods are split into; unset or 1 for neither
+  foulLimit?: number; // fouls that put a player out of the game, default 5; 0 for no limit
+}
+
+// none: late arrivals share the rest of the game evenly; full: they are scheduled until their total
+// matches everyone else's; partial: half way between
+export type CatchUpPolicy = 'none' | 'partial' | 'full';
+
+export type LineupStrategyId = 'strict' | 'balanced' | 'competitive';
+
+// together/apart are hard rules; prefer is soft, with a weight from -3 (keep apart) to 3 (keep together)
+export interface PairingRule {
+  id: string;
+  playerIds: [string, string];
+  type: 'together' | 'apart' | 'prefer';
+  weight?: number;
+}
+
+// Lineup composition, e.g. at least 1 Guard and at most 2 Centers on court
+export interface PositionRule {
+  position: CourtPosition;
+  min?: number;
+  max?: number;
+}
+
+// A written league minimum-play rule. minPeriodsBy: every player plays at least minPeriods of the first
+// byPeriod periods (the whole game when unset). equalBeforeExtra: nobody plays more than `periods`
+// periods until everyone present has played that many.
+export type LeagueRule =
+  | { type: 'minPeriodsBy'; minPeriods: number; byPeriod?: number }
+  | { type: 'equalBeforeExtra'; periods: number };
+
+// Everything beyond fairness that a generator has to take into account
+export interface LineupConstraints {
+  pairingRules: PairingRule[];
+  rotationLimits: RotationLimits;
+  positionRules: PositionRule[];
+  leagueRules: LeagueRule[];
+  // Minutes added to (or taken off) a player's fair share this game: season debt being paid down,
+  // and time a late arrival missed that they are not owed back
+  fairShareAdjustments?: { [playerId: string]: number };
+  // Share of each completed period each player was on court for, by period id, from the recorded stints.
+  // Periods not listed credit their lineup with the whole period.
+  periodShares?: { [periodId: string]: PeriodShares };
+}
+
+// Share of one period each player was on court for: 1 for all of it, less when subbed in or out
+export type PeriodShares = { [playerId: string]: number };
+
+export interface Stint {
+  playerId: string;
+  startTime: number; // minutes on the period clock when the player went on court
+  endTime?: number; // unset while the player is still on court
 }
 
 export interface Period {
@@ -21,6 +86,17 @@ export interface Period {
   lineup: Player[];
   isCompleted: boolean;
   actualDuration?: number;
+  elapsedTime?: number; // minutes on the period clock, excluding the current run
+  clockStartedAt?: number; // epoch ms of the last start/resume, unset while paused
+  stints?: Stint[]; // older periods without stints credit the whole lineup for the full period
+}
+
+// When a player was at the game, as epoch ms
+export interface PlayerAttendance {
+  arrivedAt?: number;
+  departedAt?: number;
+  missedMinutes: number; // their even share of the court time played while they were away
+  courtMinutesWhenLeft?: number; // court minutes the team had played when they left, while they are away
 }
 
 export interface Team {
@@ -30,6 +106,15 @@ export interface Team {
   primaryColor: string;
   secondaryColor: string;
   players: Player[];
+  lineupStrategy?: LineupStrategyId; // default for this team's new games
+  pairingRules?: PairingRule[];
+  rotationLimits?: RotationLimits; // default for this team's new games
+  positionRules?: PositionRule[];
+  leagueRules?: LeagueRule[];
+  payDownSeasonDebt?: boolean; // default for this team's new games
+  catchUpPolicy?: CatchUpPolicy; // default for this team's new games
+  segmentsCount?: number; // default for this team's new games
+  foulLimit?: number; // default for this team's new games
   createdAt: Date;
   updatedAt: Date;
 }
@@ -42,6 +127,16 @@ export interface Game {
   roster: Player[];
   periods: Period[];
   isActive: boolean;
+  isFinished?: boolean; // set once the coach ends the game; the game is read-only afterwards
+  endedAt?: Date;
+  rotationPlan?: PlannedPeriod[]; // full-game plan for the remaining regular periods
+  events?: GameEvent[]; // everything that happened, in order; replaying it rebuilds the game
+  pairingRules?: PairingRule[]; // the team's rules, copied when the game was set up
+  positionRules?: PositionRule[]; // copied from the team the same way
+  leagueRules?: LeagueRule[]; // copied from the team the same way
+  seasonCarryover?: { [playerId: string]: number }; // season debt in minutes to pay down this game, set at tip-off
+  attendance?: { [playerId: string]: PlayerAttendance }; // arrivals and departures once the game has started
+  fouls?: { [playerId: string]: number }; // fouls called on each player this game
 }
 
 export interface CoachProfile {
@@ -54,9 +149,46 @@ export interface CoachProfile {
   subscriptionExpiry?: Date;
 }
 
+// The parts of a lineup's score, each 0-1
+export interface LineupScores {
+  playingTime: number;
+  position: number;
+  skillBalance: number; // skill levels close together
+  skillStrength: number; // higher skill levels
+  total?: number; // the strategy's weighted score, for strategies that rank lineups by one
+}
+
 export interface LineupSuggestion {
   players: Player[];
   averageSkillLevel: number;
   playingTimeBalance: number; // 0-1 where 1 is perfectly balanced
   positionBalance: number; // 0-1 where 1 is well balanced
-}
\ No newline at end of file
+  isOptimal?: boolean; // false when the lineup search ran out of time and used its best guess
+  seed?: number; // generating again with the same seed gives the same lineup; unset when no seed gives it
+  scores?: LineupScores;
+  alternatives?: LineupSuggestion[]; // the next best distinct lineups, best first
+  reasons?: { [playerId: string]: string }; // why each present player is on court or on the bench
+}
+
+export interface PlannedPeriod {
+  number: number;
+  players: Player[];
+  averageSkillLevel: number;
+  playingTimeBalance: number; // 0-1, projected balance once this period has been played
+  positionBalance: number;
+}
+
+// Game log - timestamps are epoch ms, clock times are minutes on the period clock
+export type GameEvent =
+  | { type: 'gameStarted'; timestamp: number; presentPlayerIds: string[]; settings: GameSettings }
+  | { type: 'attendanceChanged'; timestamp: number; playerId: string; isPresent: boolean }
+  | { type: 'lateArrival'; timestamp: number; playerId: string }
+  | { type: 'periodStarted'; timestamp: number; periodId: string; number: number; playerIds: string[] }
+  | { type: 'clockStarted'; timestamp: number; periodId: string }
+  | { type: 'clockPaused'; timestamp: number; periodId: string }
+  | { type: 'substitution'; timestamp: number; periodId: string; playerOutId: string; playerInId: string; clockTime: number }
+  // A foul that puts the player out takes them off court; substituteId is who came on, unset when nobody was left
+  | { type: 'foul'; timestamp: number; periodId: string; playerId: string; clockTime: number; fouledOut?: boolean; substituteId?: string }
+  | { type: 'periodCompleted'; timestamp: number; periodId: string; actualDuration: number }
+  | { type: 'settingsChanged'; timestamp: number; settings: Partial<GameSettings> }
+  | { type: 'gameEnded'; timestamp: number };
\ No newline at end of file
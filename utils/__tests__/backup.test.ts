@@ -0,0 +1,132 @@
+import { CoachProfile, Game, Player, Team } from '../../types';
+import { MemoryStorageBackend, StorageRepository } from '../storage';
+import { BackupManager, parseBackup, serializeBackup } from '../backup';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+
+const createPlayer = (id: string, jerseyNumber: number): Player => ({
+  id,
+  name: `Player ${jerseyNumber}`,
+  jerseyNumber,
+  skillLevel: 3,
+  positions: ['Guard'],
+  isPresent: false,
+  totalPlayingTime: 0,
+});
+
+const createTeam = (id: string): Team => ({
+  id,
+  name: `Team ${id}`,
+  primaryColor: '#2196F3',
+  secondaryColor: '#FFFFFF',
+  players: [createPlayer(`${id}-p1`, 1), createPlayer(`${id}-p2`, 2)],
+  createdAt: new Date('2025-09-01T12:00:00.000Z'),
+  updatedAt: new Date('2025-09-01T12:00:00.000Z'),
+});
+
+const createGame = (id: string, team: Team): Game => ({
+  id,
+  teamId: team.id,
+  date: new Date('2025-10-11T14:00:00.000Z'),
+  settings: { periodsCount: 4, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 2 },
+  roster: team.players,
+  periods: [{ id: 'period-1', number: 1, lineup: team.players, isCompleted: true, actualDuration: 4 }],
+  isActive: false,
+  isFinished: true,
+});
+
+const createProfile = (teams: Team[]): CoachProfile => ({
+  id: 'coach-1',
+  name: 'Coach',
+  isPremium: false,
+  teams,
+  activeTeamId: teams[0].id,
+});
+
+// A device holding the given teams, each with one archived game
+const createDevice = async (teams: Team[]): Promise<StorageRepository> => {
+  const repository = new StorageRepository(new MemoryStorageBackend());
+  await repository.saveCoachProfile(createProfile(teams));
+  for (const team of teams) {
+    await repository.archiveGame(createGame(`game-${team.id}`, team));
+  }
+  return repository;
+};
+
+const backupText = async (teams: Team[]): Promise<string> => {
+  return serializeBackup(await new BackupManager(await createDevice(teams)).createBackup());
+};
+
+// The parts of a backup file the tests damage, as plain JSON
+type Fields = Record<string, unknown>;
+interface BackupJson {
+  version: number;
+  exportedAt: unknown;
+  profile: { teams: Array<{ players: Fields[] }> };
+  gameHistory: { [teamId: string]: Array<{ roster: Fields[]; periods: Array<Fields & { lineup: Fields[] }> }> };
+}
+
+// Damages one part of a valid backup file
+const damage = async (change: (data: BackupJson) => void): Promise<string> => {
+  const data = JSON.parse(await backupText([createTeam('a')]));
+  change(data);
+  return JSON.stringify(data);
+};
+
+describe('backup and restore', () => {
+  it('restores a backup onto an empty device', async () => {
+    const backup = parseBackup(await backupText([createTeam('a')]));
+    const device = new StorageRepository(new MemoryStorageBackend());
+
+    const profile = await new BackupManager(device).restore(backup, 'merge');
+
+    expect(profile.teams.map(t => t.id)).toEqual(['a']);
+    expect((await device.loadGameHistory('a')).map(g => g.id)).toEqual(['game-a']);
+    expect((await device.loadGameHistory('a'))[0].date).toEqual(new Date('2025-10-11T14:00:00.000Z'));
+  });
+
+  it('keeps teams only on this device when merging, and removes them when replacing', async () => {
+    const backup = parseBackup(await backupText([createTeam('a')]));
+
+    const merged = await createDevice([createTeam('b')]);
+    const mergeManager = new BackupManager(merged);
+    const mergePreview = await mergeManager.previewRestore(backup, 'merge');
+    await mergeManager.restore(backup, 'merge');
+
+    const replaced = await createDevice([createTeam('b')]);
+    const replaceManager = new BackupManager(replaced);
+    const replacePreview = await replaceManager.previewRestore(backup, 'replace');
+    await replaceManager.restore(backup, 'replace');
+
+    expect(mergePreview).toMatchObject({ newTeams: 1, removedTeams: 0, newGames: 1 });
+    expect((await merged.loadCoachProfile())!.teams.map(t => t.id)).toEqual(['a', 'b']);
+    expect(replacePreview).toMatchObject({ newTeams: 1, removedTeams: 1 });
+    expect((await replaced.loadCoachProfile())!.teams.map(t => t.id)).toEqual(['a']);
+    expect(await replaced.loadGameHistory('b')).toEqual([]);
+  });
+
+  it('rejects a file that is not a backup', () => {
+    expect(() => parseBackup('not json')).toThrow('could not be read');
+    expect(() => parseBackup('{"format":"something else"}')).toThrow('not a House League Coach backup');
+  });
+
+  it('rejects a backup from a newer version of the app', async () => {
+    const text = await damage(data => {
+      data.version = CURRENT_SCHEMA_VERSION + 1;
+    });
+
+    expect(() => parseBackup(text)).toThrow('newer version of the app');
+  });
+
+  it.each([
+    ['an invalid export date', (data: BackupJson) => { data.exportedAt = 'someday'; }, 'export date'],
+    ['a damaged team player', (data: BackupJson) => { data.profile.teams[0].players[0].positions = ['Wing']; }, 'unknown position'],
+    ['a damaged game roster', (data: BackupJson) => { delete data.gameHistory.a[0].roster[0].name; }, 'player 1 of game 1'],
+    ['a damaged period', (data: BackupJson) => { data.gameHistory.a[0].periods[0].isCompleted = 'yes'; }, 'period 1 of game 1'],
+    ['a damaged period lineup', (data: BackupJson) => { data.gameHistory.a[0].periods[0].lineup[1].jerseyNumber = '2'; }, 'lineup of period 1'],
+    ['damaged substitution times', (data: BackupJson) => { data.gameHistory.a[0].periods[0].stints = [{ playerId: 'a-p1' }]; }, 'substitution times'],
+  ])('rejects a backup with %s', async (_, change, message) => {
+    const text = await damage(change);
+
+    expect(() => parseBackup(text)).toThrow(message);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Game, Player } from '../../types';
+import { GameManager } from '../gameManager';
+
+const createRoster = (count: number): Player[] => Array.from({ length: count }, (_, i) => ({
+  id: `player-${i + 1}`,
+  name: `Player ${i + 1}`,
+  jerseyNumber: i + 1,
+  skillLevel: 1 + (i % 5),
+  positions: [i % 2 === 0 ? 'Guard' : 'Forward'],
+  isPresent: i < count - 1, // the last player arrives late
+  totalPlayingTime: 0,
+}));
+
+const createGame = (): Game => ({
+  id: 'game-1',
+  teamId: 'team-1',
+  date: new Date('2025-10-11T14:00:00.000Z'),
+  settings: { periodsCount: 8, periodDuration: 4, overtimePeriods: 2, playersOnCourt: 5, foulLimit: 2 },
+  roster: createRoster(9),
+  periods: [],
+  isActive: false,
+});
+
+const MINUTE = 60000;
+
+// Plays periods from the suggestions, with the clock, a substitution, a late arrival, a foul-out and a settings change
+const playGame = (game: Game): GameManager => {
+  const manager = new GameManager(game);
+  let now = Date.parse('2025-10-11T14:00:00.000Z');
+  manager.startGame(now);
+
+  for (let number = 1; number <= 4; number++) {
+    const period = manager.createPeriodFromSuggestion(manager.generateNextLineup());
+    manager.addPeriod(period, now);
+    manager.startPeriod(period.id, now);
+    now += 2 * MINUTE;
+
+    if (number === 2) {
+      const bench = manager.getEligiblePlayers().find(p => !period.lineup.some(lp => lp.id === p.id))!;
+      manager.swapPlayers(period.id, period.lineup[0].id, bench.id, now);
+      manager.addLatePlayer('player-9', now);
+    }
+    if (number === 3) {
+      const fouler = period.lineup[1].id;
+      manager.addFoul(period.id, fouler, now);
+      manager.addFoul(period.id, fouler, now + MINUTE / 2);
+      manager.updateGameSettings({ maxConsecutiveBench: 2 }, now);
+    }
+
+    now += 2 * MINUTE;
+    manager.completePeriod(period.id, undefined, now);
+    now += MINUTE;
+  }
+
+  // The fifth period is left open with the clock paused
+  const open = manager.createPeriodFromSuggestion(manager.generateNextLineup());
+  manager.addPeriod(open, now);
+  manager.startPeriod(open.id, now);
+  manager.pausePeriod(open.id, now + MINUTE);
+  return manager;
+};
+
+const snapshot = (game: Game) => JSON.parse(JSON.stringify(game));
+
+describe('GameManager.replay', () => {
+  it('rebuilds the live game from its event log', () => {
+    const live = createGame();
+    playGame(live);
+
+    const replayed = GameManager.replay(live);
+
+    expect(snapshot(replayed)).toEqual(snapshot(live));
+  });
+
+  it('rebuilds a finished game', () => {
+    const live = createGame();
+    const manager = playGame(live);
+    const open = live.periods[live.periods.length - 1];
+    manager.completePeriod(open.id, undefined, Date.parse('2025-10-11T15:00:00.000Z'));
+    manager.endGame(Date.parse('2025-10-11T15:01:00.000Z'));
+
+    const replayed = GameManager.replay(live);
+
+    expect(replayed.isFinished).toBe(true);
+    expect(snapshot(replayed)).toEqual(snapshot(live));
+  });
+});
\ No newline at end of file
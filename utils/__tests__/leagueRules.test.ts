@@ -0,0 +1,84 @@
+import { Game, LeagueRule, Player } from '../../types';
+import { LEAGUE_RULE_PRESETS, findLeagueViolations, getLeagueRequirements, getLeagueRuleProfile } from '../leagueRules';
+import { getLineupShares } from '../periodShares';
+import { GameManager } from '../gameManager';
+
+const players: Player[] = Array.from({ length: 8 }, (_, i) => ({
+  id: `player-${i + 1}`,
+  name: `Player ${i + 1}`,
+  jerseyNumber: i + 1,
+  skillLevel: 1 + (i % 5),
+  positions: [i % 2 === 0 ? 'Guard' : 'Forward'],
+  isPresent: true,
+  totalPlayingTime: 0,
+}));
+
+const lineup = (...numbers: number[]) => numbers.map(n => players[n - 1]);
+const twoOfFirstFour: LeagueRule = { type: 'minPeriodsBy', minPeriods: 2, byPeriod: 4 };
+
+describe('league rules', () => {
+  it('reports a player who could no longer reach a minimum', () => {
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5)), getLineupShares(lineup(1, 2, 3, 6, 7))];
+
+    const requirements = getLeagueRequirements([twoOfFirstFour], periods, players, 5, 8);
+    const violations = findLeagueViolations([twoOfFirstFour], periods, lineup(1, 2, 3, 4, 5), players, 8);
+
+    expect(requirements.mustPlay.map(p => p.id)).toEqual(['player-8']);
+    expect(violations).toContainEqual({ rule: twoOfFirstFour, playerId: 'player-8' });
+  });
+
+  it('counts part of a period as a whole period still to play', () => {
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5)), { ...getLineupShares(lineup(2, 3, 4, 6, 7)), 'player-8': 0.5 }];
+
+    const requirements = getLeagueRequirements([{ type: 'minPeriodsBy', minPeriods: 1, byPeriod: 3 }], periods, players, 5, 8);
+
+    expect(requirements.mustPlay.map(p => p.id)).toEqual(['player-8']);
+  });
+
+  it('holds back an extra period while someone is still short', () => {
+    const rule: LeagueRule = { type: 'equalBeforeExtra', periods: 1 };
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5))];
+
+    const violations = findLeagueViolations([rule], periods, lineup(1, 2, 3, 6, 7), players, 8);
+
+    expect(violations.map(v => v.playerId)).toEqual(['player-1', 'player-2', 'player-3']);
+  });
+
+  it('recognizes a preset and calls changed numbers custom', () => {
+    const preset = LEAGUE_RULE_PRESETS[0];
+
+    expect(getLeagueRuleProfile(preset.rules)?.id).toBe(preset.id);
+    expect(getLeagueRuleProfile([{ type: 'minPeriodsBy', minPeriods: 3, byPeriod: 4 }])?.id).toBe('custom');
+    expect(getLeagueRuleProfile([])).toBeUndefined();
+  });
+
+  it('is met by a whole game of suggested lineups', () => {
+    const leagueRules = LEAGUE_RULE_PRESETS.find(preset => preset.id === 'houseLeague')!.rules;
+    const game: Game = {
+      id: 'game-1',
+      teamId: 'team-1',
+      date: new Date('2025-10-11T14:00:00.000Z'),
+      settings: { periodsCount: 8, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 5, lineupStrategy: 'balanced' },
+      roster: players,
+      periods: [],
+      isActive: false,
+      leagueRules,
+    };
+    const manager = new GameManager(game);
+    let now = Date.parse('2025-10-11T14:00:00.000Z');
+    manager.startGame(now);
+
+    for (let number = 1; number <= 8; number++) {
+      const period = manager.createPeriodFromSuggestion(manager.generateNextLineup());
+      manager.addPeriod(period, now);
+      manager.completePeriod(period.id, undefined, now += 4 * 60000);
+    }
+
+    const played = (periods: Game['periods'], playerId: string) =>
+      periods.filter(period => period.lineup.some(p => p.id === playerId)).length;
+    players.forEach(player => {
+      expect(played(game.periods.slice(0, 4), player.id)).toBeGreaterThanOrEqual(2);
+      expect(played(game.periods, player.id)).toBeGreaterThanOrEqual(4);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { CoachProfile } from '../../types';
+import { MemoryStorageBackend, StorageRepository, STORAGE_KEYS } from '../storage';
+import { CURRENT_SCHEMA_VERSION, migrateCoachProfile, migrateGame, unwrapVersioned, wrapVersioned } from '../migrations';
+
+const profile: CoachProfile = { id: 'coach-1', name: 'Coach', isPremium: false, teams: [] };
+
+describe('schema versions', () => {
+  it('treats data saved without an envelope as version 1', () => {
+    expect(unwrapVersioned({ id: 'coach-1' })).toEqual({ schemaVersion: 1, data: { id: 'coach-1' } });
+    expect(unwrapVersioned(wrapVersioned(profile))).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, data: profile });
+  });
+
+  it('gives players saved with a single position a position list', () => {
+    const migrated = migrateCoachProfile({
+      ...profile,
+      teams: [{ id: 'team-1', name: 'Team', players: [{ id: 'p1', name: 'Alex', position: 'Center' }, { id: 'p2', name: 'Blake' }] }],
+    }, 2);
+
+    expect(migrated.teams[0].players.map(p => p.positions)).toEqual([['Center'], ['Any']]);
+  });
+
+  it('credits the whole lineup of a period saved before substitutions were tracked', () => {
+    const lineup = [{ id: 'p1', name: 'Alex', positions: ['Guard'] }];
+    const migrated = migrateGame({
+      id: 'game-1',
+      settings: { periodDuration: 6 },
+      roster: lineup,
+      periods: [{ id: 'period-1', number: 1, lineup, isCompleted: true }],
+    }, 1);
+
+    expect(migrated.periods[0].stints).toEqual([{ playerId: 'p1', startTime: 0, endTime: 6 }]);
+  });
+
+  it('refuses data from a newer version of the app', () => {
+    expect(() => migrateGame({}, CURRENT_SCHEMA_VERSION + 1)).toThrow('newer version of the app');
+  });
+});
+
+describe('saved data from a newer version of the app', () => {
+  const newerProfile = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: { ...profile, name: 'Newer' } });
+
+  it('stops every write so the newer data is never overwritten', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.coachProfile, newerProfile);
+    const repository = new StorageRepository(backend);
+
+    await expect(repository.loadCoachProfile()).rejects.toThrow('newer version of the app');
+    await expect(repository.saveCoachProfile(profile)).rejects.toThrow('Update the app');
+    await expect(repository.deleteGameHistory('team-1')).rejects.toThrow('Update the app');
+
+    expect(repository.isReadOnly).toBe(true);
+    expect(await backend.getItem(STORAGE_KEYS.coachProfile)).toBe(newerProfile);
+  });
+
+  it('leaves a repository that only found current data writable', async () => {
+    const repository = new StorageRepository(new MemoryStorageBackend());
+    await repository.saveCoachProfile(profile);
+
+    expect(await repository.loadCoachProfile()).toEqual(profile);
+    expect(repository.isReadOnly).toBe(false);
+  });
+});
\ No newline at end of file
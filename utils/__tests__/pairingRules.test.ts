@@ -0,0 +1,57 @@
+import { LineupConstraints, PairingRule, Player } from '../../types';
+import { breaksRule, findBrokenRules, getPairingPreference } from '../pairingRules';
+import { lineupStrategies } from '../lineupStrategies';
+
+const players: Player[] = Array.from({ length: 8 }, (_, i) => ({
+  id: `player-${i + 1}`,
+  name: `Player ${i + 1}`,
+  jerseyNumber: i + 1,
+  skillLevel: 1 + (i % 5),
+  positions: [i % 2 === 0 ? 'Guard' : 'Forward'],
+  isPresent: true,
+  totalPlayingTime: 0,
+}));
+
+const together: PairingRule = { id: 'together', playerIds: ['player-1', 'player-2'], type: 'together' };
+const apart: PairingRule = { id: 'apart', playerIds: ['player-3', 'player-4'], type: 'apart' };
+const prefer: PairingRule = { id: 'prefer', playerIds: ['player-5', 'player-6'], type: 'prefer', weight: 2 };
+
+const lineup = (...numbers: number[]) => numbers.map(n => players[n - 1]);
+
+describe('pairing rules', () => {
+  it('breaks a together rule when only one of the pair plays', () => {
+    expect(breaksRule(together, lineup(1, 3, 5, 7, 8), players)).toBe(true);
+    expect(breaksRule(together, lineup(1, 2, 5, 7, 8), players)).toBe(false);
+    expect(breaksRule(together, lineup(3, 5, 6, 7, 8), players)).toBe(false);
+  });
+
+  it('holds a together rule only while both players are here', () => {
+    const withoutPartner = players.filter(p => p.id !== 'player-2');
+
+    expect(breaksRule(together, lineup(1, 3, 5, 7, 8), withoutPartner)).toBe(false);
+  });
+
+  it('breaks an apart rule when both play', () => {
+    expect(breaksRule(apart, lineup(3, 4, 5, 7, 8), players)).toBe(true);
+    expect(breaksRule(apart, lineup(3, 5, 6, 7, 8), players)).toBe(false);
+  });
+
+  it('counts preferences as a score rather than a broken rule', () => {
+    const rules = [together, apart, prefer];
+
+    expect(findBrokenRules(rules, lineup(3, 4, 5, 6, 7), players)).toEqual([apart]);
+    expect(getPairingPreference(rules, lineup(3, 4, 5, 6, 7))).toBe(2);
+    expect(getPairingPreference(rules, lineup(1, 2, 3, 5, 7))).toBe(0);
+  });
+
+  it.each(lineupStrategies.list().map(strategy => strategy.id))('is followed by the %s strategy', id => {
+    const constraints: LineupConstraints = { pairingRules: [together, apart], rotationLimits: {}, positionRules: [], leagueRules: [] };
+    const settings = { periodsCount: 8, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 5 };
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const [suggestion] = lineupStrategies.get(id).generateLineups(players, settings, [], seed, constraints, 1);
+
+      expect(findBrokenRules(constraints.pairingRules, suggestion.players, players)).toEqual([]);
+    }
+  });
+});
\ No newline at end of file
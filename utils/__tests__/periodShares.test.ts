@@ -0,0 +1,72 @@
+import { Game, Player } from '../../types';
+import { GameManager } from '../gameManager';
+
+const START = Date.parse('2025-10-11T14:00:00.000Z');
+const MINUTE = 60000;
+
+// Six players for five spots, in halves of two periods. The sixth player is the weakest, so a tie
+// with them on periods played goes against them.
+const createGame = (): Game => ({
+  id: 'game-1',
+  teamId: 'team-1',
+  date: new Date(START),
+  settings: { periodsCount: 4, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 5, segmentsCount: 2, lineupStrategy: 'strict' },
+  roster: Array.from({ length: 6 }, (_, i): Player => ({
+    id: `player-${i + 1}`,
+    name: `Player ${i + 1}`,
+    jerseyNumber: i + 1,
+    skillLevel: i === 5 ? 1 : 3,
+    positions: ['Guard'],
+    isPresent: true,
+    totalPlayingTime: 0,
+  })),
+  periods: [],
+  isActive: false,
+});
+
+// Period 1 starts with players 1-5; player 6 replaces player 1 half a minute in
+const playSwappedPeriod = (game: Game): GameManager => {
+  const manager = new GameManager(game);
+  manager.startGame(START);
+  const period = manager.createPeriodFromSuggestion({
+    players: game.roster.slice(0, 5),
+    averageSkillLevel: 3,
+    playingTimeBalance: 1,
+    positionBalance: 1,
+  });
+  manager.addPeriod(period, START);
+  manager.startPeriod(period.id, START);
+  manager.swapPlayers(period.id, 'player-1', 'player-6', START + MINUTE / 2);
+  manager.completePeriod(period.id, undefined, START + 4 * MINUTE);
+  return manager;
+};
+
+const ids = (players: Player[]) => players.map(p => p.id);
+
+describe('periods played after a mid-period substitution', () => {
+  it('credits each player with the share of the period they were on court', () => {
+    const manager = playSwappedPeriod(createGame());
+    const shares = Object.values(manager.getLineupConstraints().periodShares!)[0];
+
+    expect(shares['player-1']).toBeCloseTo(0.125);
+    expect(shares['player-6']).toBeCloseTo(0.875);
+    expect(shares['player-2']).toBe(1);
+  });
+
+  it('keeps both swapped players on court next period', () => {
+    const manager = playSwappedPeriod(createGame());
+
+    const suggestion = manager.generateNextLineup();
+
+    expect(ids(suggestion.players)).toEqual(expect.arrayContaining(['player-1', 'player-6']));
+  });
+
+  it('plans both swapped players into the rest of the half', () => {
+    const manager = playSwappedPeriod(createGame());
+
+    const plan = manager.planRotation();
+
+    expect(plan[0].number).toBe(2);
+    expect(ids(plan[0].players)).toEqual(expect.arrayContaining(['player-1', 'player-6']));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { Player } from '../../types';
+import { exportRosterCsv, parseRosterCsv } from '../rosterCsv';
+
+const player = (name: string, jerseyNumber: number, positions: Player['positions']): Player => ({
+  id: `player-${jerseyNumber}`,
+  name,
+  jerseyNumber,
+  skillLevel: 3,
+  positions,
+  isPresent: true,
+  totalPlayingTime: 0,
+});
+
+describe('roster CSV import', () => {
+  it('reads back an exported roster', () => {
+    const players = [player('Casey "CJ" Jones', 7, ['Guard', 'Forward']), player('Lee, Sam', 12, ['Center'])];
+
+    const rows = parseRosterCsv(exportRosterCsv(players), []);
+
+    expect(rows.map(row => row.errors)).toEqual([[], []]);
+    expect(rows.map(row => row.player!.name)).toEqual(['Casey "CJ" Jones', 'Lee, Sam']);
+    expect(rows[0].player!.positions).toEqual(['Guard', 'Forward']);
+  });
+
+  it('reports every problem on a row with its line number', () => {
+    const rows = parseRosterCsv('Name,Jersey Number,Skill Level,Positions\n,100,9,Wing', []);
+
+    expect(rows[0].lineNumber).toBe(2);
+    expect(rows[0].player).toBeNull();
+    expect(rows[0].errors).toEqual([
+      'Player name is required',
+      'Skill level must be 1-5, got "9"',
+      'Position must be one of Guard, Forward, Center, Any, got "Wing"',
+    ]);
+  });
+
+  it('rejects jersey numbers already on the roster or earlier in the file', () => {
+    const rows = parseRosterCsv('Name,Number\nAlex,4\nBlake,5\nCasey,5', [4]);
+
+    expect(rows.map(row => row.errors)).toEqual([
+      ['Jersey number 4 is already taken'],
+      [],
+      ['Jersey number 5 is already taken'],
+    ]);
+  });
+
+  it('reads tab-separated rows without a header and fills in skill and position', () => {
+    const rows = parseRosterCsv('Alex\t4\nBlake\t5\t2\tguard', []);
+
+    expect(rows.map(row => [row.player!.skillLevel, row.player!.positions])).toEqual([
+      [3, ['Any']],
+      [2, ['Guard']],
+    ]);
+  });
+});
\ No newline at end of file
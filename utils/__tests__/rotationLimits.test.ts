@@ -0,0 +1,65 @@
+import { LineupConstraints, Player } from '../../types';
+import { findRotationViolations, getRotationRequirements, getStreak } from '../rotationLimits';
+import { getLineupShares } from '../periodShares';
+import { RotationPlanner } from '../rotationPlanner';
+
+const players: Player[] = Array.from({ length: 7 }, (_, i) => ({
+  id: `player-${i + 1}`,
+  name: `Player ${i + 1}`,
+  jerseyNumber: i + 1,
+  skillLevel: 1 + (i % 5),
+  positions: [i % 2 === 0 ? 'Guard' : 'Forward'],
+  isPresent: true,
+  totalPlayingTime: 0,
+}));
+
+const lineup = (...numbers: number[]) => numbers.map(n => players[n - 1]);
+
+describe('rotation limits', () => {
+  it('counts any time on court as playing the period', () => {
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5)), { 'player-1': 0.25, 'player-6': 0.75 }];
+
+    expect(getStreak(periods, 'player-1')).toEqual({ playing: 2, sitting: 0 });
+    expect(getStreak(periods, 'player-7')).toEqual({ playing: 0, sitting: 2 });
+    expect(getStreak(periods, 'player-6')).toEqual({ playing: 1, sitting: 0 });
+  });
+
+  it('reports a run that the next lineup would make too long', () => {
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5)), getLineupShares(lineup(1, 2, 3, 4, 6))];
+
+    const violations = findRotationViolations({ maxConsecutiveBench: 2, maxConsecutivePlay: 2 }, periods, lineup(1, 2, 5, 6, 7), players);
+
+    expect(violations).toEqual([
+      { playerId: 'player-1', type: 'playing', periods: 3 },
+      { playerId: 'player-2', type: 'playing', periods: 3 },
+    ]);
+  });
+
+  it('names who has to come on and off next period', () => {
+    const periods = [getLineupShares(lineup(1, 2, 3, 4, 5))];
+
+    const requirements = getRotationRequirements({ maxConsecutiveBench: 1, maxConsecutivePlay: 1 }, periods, players, 5);
+
+    expect(requirements.mustPlay.map(p => p.id)).toEqual(['player-6', 'player-7']);
+    expect(requirements.mustSit).toHaveLength(5);
+    expect(requirements.isFeasible).toBe(false);
+  });
+
+  it('is kept by every period of the rotation plan', () => {
+    const constraints: LineupConstraints = {
+      pairingRules: [],
+      rotationLimits: { maxConsecutiveBench: 1, maxConsecutivePlay: 3 },
+      positionRules: [],
+      leagueRules: [],
+    };
+    const settings = { periodsCount: 8, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 5 };
+
+    const plan = new RotationPlanner(players, settings, [], constraints).planRemainingPeriods();
+
+    expect(plan).toHaveLength(8);
+    plan.forEach((planned, index) => {
+      const previous = plan.slice(0, index).map(p => getLineupShares(p.players));
+      expect(findRotationViolations(constraints.rotationLimits, previous, planned.players, players)).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { CatchUpPolicy, Game, Period, Player } from '../../types';
+import { GameManager } from '../gameManager';
+import { buildSeasonLedger, getMinutesOwed, getSeasonCarryover } from '../seasonLedger';
+
+const START = Date.parse('2025-10-11T14:00:00.000Z');
+const MINUTE = 60000;
+
+// Six players for five spots, four periods of four minutes: 80 player-minutes in all
+const createGame = (catchUpPolicy: CatchUpPolicy = 'none', absentId?: string): Game => ({
+  id: 'game-1',
+  teamId: 'team-1',
+  date: new Date(START),
+  settings: { periodsCount: 4, periodDuration: 4, overtimePeriods: 0, playersOnCourt: 5, catchUpPolicy, foulLimit: 2 },
+  roster: Array.from({ length: 6 }, (_, i): Player => ({
+    id: `player-${i + 1}`,
+    name: `Player ${i + 1}`,
+    jerseyNumber: i + 1,
+    skillLevel: 3,
+    positions: ['Guard'],
+    isPresent: `player-${i + 1}` !== absentId,
+    totalPlayingTime: 0,
+  })),
+  periods: [],
+  isActive: false,
+});
+
+// Plays four suggested periods on the clock; atPeriod runs as each one starts
+const playGame = (game: Game, atPeriod: (manager: GameManager, period: Period, startedAt: number) => void = () => {}): Game => {
+  const manager = new GameManager(game);
+  let now = START;
+  manager.startGame(now);
+
+  for (let number = 1; number <= 4; number++) {
+    const period = manager.createPeriodFromSuggestion(manager.generateNextLineup());
+    manager.addPeriod(period, now);
+    manager.startPeriod(period.id, now);
+    atPeriod(manager, period, now);
+    now += 4 * MINUTE;
+    manager.completePeriod(period.id, undefined, now);
+  }
+
+  manager.endGame(now);
+  return game;
+};
+
+describe('season ledger', () => {
+  it('splits the court time evenly when everyone was there all game', () => {
+    const ledger = buildSeasonLedger([playGame(createGame())]);
+
+    Object.values(ledger).forEach(entry => {
+      expect(entry.fairMinutes).toBeCloseTo(80 / 6);
+      expect(entry.fairPeriods).toBeCloseTo(20 / 6);
+    });
+  });
+
+  it('gives a player who left early a share of the time they were there only', () => {
+    const game = playGame(createGame(), (manager, period, startedAt) => {
+      if (period.number === 3) manager.markPlayerPresent('player-1', false, startedAt);
+    });
+
+    const ledger = buildSeasonLedger([game]);
+
+    // Six players share the first two periods, the five who stayed share the rest
+    expect(ledger['player-1'].fairMinutes).toBeCloseTo(40 / 6);
+    expect(ledger['player-2'].fairMinutes).toBeCloseTo(40 / 6 + 40 / 5);
+    expect(ledger['player-2'].fairPeriods).toBeCloseTo(10 / 6 + 2);
+  });
+
+  it.each([
+    ['none', 0],
+    ['partial', 0.5],
+    ['full', 1],
+  ] as const)('owes a late arrival the missed time their %s catch-up policy makes up', (policy, madeUp) => {
+    const game = playGame(createGame(policy, 'player-6'), (manager, period, startedAt) => {
+      if (period.number === 3) manager.addLatePlayer('player-6', startedAt);
+    });
+
+    const ledger = buildSeasonLedger([game]);
+
+    // They missed 40 player-minutes, an even share of which is 40 / 6
+    const missed = 40 / 6;
+    expect(ledger['player-6'].fairMinutes).toBeCloseTo(40 / 6 + madeUp * missed);
+    expect(ledger['player-1'].fairMinutes).toBeCloseTo(40 / 5 + 40 / 6);
+  });
+
+  it('holds a fouled-out player to the time they got', () => {
+    const game = playGame(createGame(), (manager, period, startedAt) => {
+      if (period.number !== 1) return;
+      manager.addFoul(period.id, period.lineup[0].id, startedAt + MINUTE);
+      manager.addFoul(period.id, period.lineup[0].id, startedAt + MINUTE);
+    });
+    const fouler = Object.keys(game.fouls!)[0];
+
+    const ledger = buildSeasonLedger([game]);
+
+    expect(ledger[fouler].fairMinutes).toBe(ledger[fouler].minutesPlayed);
+    expect(getMinutesOwed(ledger, fouler)).toBe(0);
+  });
+
+  it('pays a debt back over several games, at most a period at a time', () => {
+    const ledger = {
+      'player-1': { playerId: 'player-1', gamesAttended: 2, periodsPlayed: 2, fairPeriods: 5, minutesPlayed: 8, fairMinutes: 20 },
+      'player-2': { playerId: 'player-2', gamesAttended: 2, periodsPlayed: 5, fairPeriods: 4, minutesPlayed: 20, fairMinutes: 17 },
+    };
+
+    const carryover = getSeasonCarryover(ledger, createGame().roster, 3);
+
+    expect(carryover).toEqual({ 'player-1': 3, 'player-2': -1 });
+  });
+});
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Game, Player } from '../../types';
+import { MemoryStorageBackend, StorageRepository, STORAGE_KEYS } from '../storage';
+import { parseBackup } from '../backup';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+
+// Every schema version ever shipped has a fixture folder; each must still load into today's shapes
+const FIXTURES_DIR = path.join(__dirname, '../../fixtures/storage');
+const VERSIONS = fs.readdirSync(FIXTURES_DIR).filter(name => /^v\d+$/.test(name)).sort();
+
+const readFixture = (version: string, file: string): string => {
+  return fs.readFileSync(path.join(FIXTURES_DIR, version, file), 'utf8');
+};
+
+const fixtureFiles = (version: string, prefix: string): string[] => {
+  return fs.readdirSync(path.join(FIXTURES_DIR, version)).filter(file => file.startsWith(prefix));
+};
+
+const expectPlayer = (player: Player) => {
+  expect(Array.isArray(player.positions)).toBe(true);
+  expect(player.positions.length).toBeGreaterThan(0);
+  expect(player).not.toHaveProperty('position');
+};
+
+const expectGame = (game: Game) => {
+  expect(game.date).toBeInstanceOf(Date);
+  expect(isNaN(game.date.getTime())).toBe(false);
+  if (game.endedAt) {
+    expect(game.endedAt).toBeInstanceOf(Date);
+  }
+
+  game.roster.forEach(expectPlayer);
+  game.periods.forEach(period => {
+    expect(Array.isArray(period.stints)).toBe(true);
+    period.lineup.forEach(expectPlayer);
+    if (period.isCompleted) {
+      period.stints!.forEach(stint => expect(typeof stint.endTime).toBe('number'));
+    }
+  });
+  game.rotationPlan?.forEach(planned => planned.players.forEach(expectPlayer));
+};
+
+describe.each(VERSIONS)('saved data from schema %s', version => {
+  it('loads the coach profile', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.coachProfile, readFixture(version, 'coachProfile.json'));
+
+    const profile = await new StorageRepository(backend).loadCoachProfile();
+
+    expect(profile).not.toBeNull();
+    expect(profile!.teams.length).toBeGreaterThan(0);
+    profile!.teams.forEach(team => {
+      expect(team.createdAt).toBeInstanceOf(Date);
+      expect(team.updatedAt).toBeInstanceOf(Date);
+      team.players.forEach(expectPlayer);
+    });
+  });
+
+  it.each(fixtureFiles(version, 'currentGame'))('loads the checkpoint in %s', async file => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.currentGame, readFixture(version, file));
+
+    const checkpoint = await new StorageRepository(backend).loadCheckpoint();
+
+    expect(checkpoint).not.toBeNull();
+    expect(checkpoint!.savedAt).toBeInstanceOf(Date);
+    expectGame(checkpoint!.game);
+    checkpoint!.lineupSuggestion?.players.forEach(expectPlayer);
+  });
+
+  it('loads the game history', async () => {
+    const text = readFixture(version, 'gameHistory.json');
+    const stored = JSON.parse(text);
+    const teamId: string = (Array.isArray(stored) ? stored : stored.data)[0].teamId;
+
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.gameHistory(teamId), text);
+
+    const history = await new StorageRepository(backend).loadGameHistory(teamId);
+
+    expect(history.length).toBeGreaterThan(0);
+    history.forEach(expectGame);
+  });
+
+  it('restores the backup', () => {
+    const backup = parseBackup(readFixture(version, 'backup.json'));
+
+    expect(backup.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(backup.exportedAt).toBeInstanceOf(Date);
+    backup.profile.teams.forEach(team => {
+      expect(team.createdAt).toBeInstanceOf(Date);
+      team.players.forEach(expectPlayer);
+    });
+    Object.values(backup.gameHistory).forEach(games => games.forEach(expectGame));
+  });
+});
+
+it('has a fixture folder for the current schema version', () => {
+  expect(VERSIONS).toContain(`v${CURRENT_SCHEMA_VERSION}`);
+});
\ No newline at end of file
@@ -0,0 +1,17 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageBackend } from './storage';
+
+// Device backend - kept out of storage.ts so the repository can be used without native modules
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,285 @@
+import { CoachProfile, Game, Position } from '../types';
+import { CoachDataRepository, reviveCoachProfile, reviveGame } from './storage';
+import { CURRENT_SCHEMA_VERSION, migrateCoachProfile, migrateGame } from './migrations';
+import { PLAYER_POSITIONS } from './playerValidation';
+
+export const BACKUP_FORMAT = 'houseLeagueCoach.backup';
+// A single file holding everything a coach would lose with their phone:
+// the profile (teams, players, account settings) and every team's archived games
+export interface CoachBackup {
+  format: string;
+  version: number; // schema version of the data inside, migrated up to the current one on restore
+  exportedAt: Date;
+  profile: CoachProfile;
+  gameHistory: { [teamId: string]: Game[] };
+}
+
+// merge keeps teams and games that are only on this device; replace makes the device match the backup
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  teams: number;
+  newTeams: number;
+  updatedTeams: number;
+  removedTeams: number;
+  players: number;
+  games: number;
+  newGames: number;
+}
+
+export const serializeBackup = (backup: CoachBackup): string => {
+  return JSON.stringify(backup, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkPlayer = (player: unknown, where: string): void => {
+  if (!isObject(player) || typeof player.id !== 'string' || typeof player.name !== 'string') {
+    throw new Error(`Backup is damaged: ${where} is missing its id or name`);
+  }
+  if (typeof player.jerseyNumber !== 'number' || typeof player.skillLevel !== 'number') {
+    throw new Error(`Backup is damaged: ${where} (${player.name}) has no jersey number or skill level`);
+  }
+  if (!Array.isArray(player.positions) || !player.positions.every((p: unknown) => PLAYER_POSITIONS.includes(p as Position))) {
+    throw new Error(`Backup is damaged: ${where} (${player.name}) has an unknown position`);
+  }
+};
+
+const isValidDate = (value: unknown): boolean => {
+  return (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+};
+
+const checkPeriod = (period: unknown, where: string): void => {
+  if (!isObject(period) || typeof period.id !== 'string' || typeof period.number !== 'number' || typeof period.isCompleted !== 'boolean') {
+    throw new Error(`Backup is damaged: ${where} is missing its id, number or completed flag`);
+  }
+  if (!Array.isArray(period.lineup)) {
+    throw new Error(`Backup is damaged: ${where} has no lineup`);
+  }
+  period.lineup.forEach((player: unknown, playerIndex: number) => {
+    checkPlayer(player, `player ${playerIndex + 1} in the lineup of ${where}`);
+  });
+  if (period.actualDuration !== undefined && typeof period.actualDuration !== 'number') {
+    throw new Error(`Backup is damaged: ${where} has an invalid length`);
+  }
+  if (period.stints !== undefined && (!Array.isArray(period.stints) || !period.stints.every((stint: unknown) =>
+    isObject(stint) && typeof stint.playerId === 'string' && typeof stint.startTime === 'number' &&
+    (stint.endTime === undefined || typeof stint.endTime === 'number')
+  ))) {
+    throw new Error(`Backup is damaged: ${where} has invalid substitution times`);
+  }
+};
+
+const checkGame = (game: unknown, where: string): void => {
+  if (!isObject(game) || typeof game.id !== 'string' || typeof game.teamId !== 'string') {
+    throw new Error(`Backup is damaged: ${where} is missing its id or team`);
+  }
+  if (!Array.isArray(game.roster) || !Array.isArray(game.periods) || !isObject(game.settings)) {
+    throw new Error(`Backup is damaged: ${where} is missing its roster, periods or settings`);
+  }
+  if (!isValidDate(game.date)) {
+    throw new Error(`Backup is damaged: ${where} has no valid date`);
+  }
+  game.roster.forEach((player: unknown, playerIndex: number) => {
+    checkPlayer(player, `player ${playerIndex + 1} of ${where}`);
+  });
+  game.periods.forEach((period: unknown, periodIndex: number) => {
+    checkPeriod(period, `period ${periodIndex + 1} of ${where}`);
+  });
+};
+
+// Validates the whole file before anything is touched, so a bad file never half-restores
+export const parseBackup = (text: string): CoachBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a backup - it could not be read');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a House League Coach backup');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('Backup is damaged: its version is missing');
+  }
+  if (data.version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of the app (backup version ${data.version}). ` +
+      'Update the app and try again.'
+    );
+  }
+
+  if (!isValidDate(data.exportedAt)) {
+    throw new Error('Backup is damaged: its export date is missing');
+  }
+  if (!isObject(data.profile) || !isObject(data.gameHistory)) {
+    throw new Error('Backup is damaged: the coach profile or game history is missing');
+  }
+  Object.entries(data.gameHistory).forEach(([teamId, games]) => {
+    if (!Array.isArray(games)) {
+      throw new Error(`Backup is damaged: the game history for team ${teamId} is not a list`);
+    }
+  });
+
+  // Older backups are upgraded the same way older saves on the device are
+  let profile: CoachProfile;
+  const gameHistory: { [teamId: string]: Game[] } = {};
+  const version = data.version;
+  try {
+    profile = migrateCoachProfile(data.profile, version);
+    Object.entries(data.gameHistory as { [teamId: string]: unknown[] }).forEach(([teamId, games]) => {
+      gameHistory[teamId] = games.map(game => migrateGame(game, version));
+    });
+  } catch {
+    throw new Error(`Backup is damaged: it could not be upgraded from version ${data.version}`);
+  }
+
+  if (typeof profile.id !== 'string' || !Array.isArray(profile.teams)) {
+    throw new Error('Backup is damaged: the coach profile is missing');
+  }
+  profile.teams.forEach((team: unknown, teamIndex: number) => {
+    if (!isObject(team) || typeof team.id !== 'string' || typeof team.name !== 'string' || !Array.isArray(team.players)) {
+      throw new Error(`Backup is damaged: team ${teamIndex + 1} is missing its id, name or players`);
+    }
+    team.players.forEach((player: unknown, playerIndex: number) => {
+      checkPlayer(player, `player ${playerIndex + 1} of ${team.name}`);
+    });
+  });
+  Object.entries(gameHistory).forEach(([teamId, games]) => {
+    games.forEach((game: unknown, gameIndex: number) => checkGame(game, `game ${gameIndex + 1} of team ${teamId}`));
+  });
+
+  const revivedHistory: { [teamId: string]: Game[] } = {};
+  Object.entries(gameHistory).forEach(([teamId, games]) => {
+    revivedHistory[teamId] = games.map(reviveGame);
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date(data.exportedAt as string | number),
+    profile: reviveCoachProfile(profile),
+    gameHistory: revivedHistory,
+  };
+};
+
+// e.g. "3 teams (2 new), 36 players, 41 games (12 new)"
+export const describeRestorePreview = (preview: RestorePreview): string => {
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  const parts = [
+    `${plural(preview.teams, 'team')}${preview.newTeams > 0 ? ` (${preview.newTeams} new)` : ''}`,
+    plural(preview.players, 'player'),
+    `${plural(preview.games, 'game')}${preview.newGames > 0 ? ` (${preview.newGames} new)` : ''}`,
+  ];
+
+  const summary = parts.join(', ');
+  return preview.removedTeams > 0
+    ? `${summary}; ${plural(preview.removedTeams, 'team')} on this device will be removed`
+    : summary;
+};
+
+export class BackupManager {
+  private repository: CoachDataRepository;
+
+  constructor(repository: CoachDataRepository) {
+    this.repository = repository;
+  }
+
+  async createBackup(): Promise<CoachBackup> {
+    const profile = await this.repository.loadCoachProfile();
+    if (!profile) {
+      throw new Error('There is nothing to back up yet');
+    }
+
+    const gameHistory: { [teamId: string]: Game[] } = {};
+    for (const team of profile.teams) {
+      gameHistory[team.id] = await this.repository.loadGameHistory(team.id);
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date(),
+      profile,
+      gameHistory,
+    };
+  }
+
+  // Dry run - reports what restoring would change without writing anything
+  async previewRestore(backup: CoachBackup, mode: RestoreMode): Promise<RestorePreview> {
+    const local = await this.repository.loadCoachProfile();
+    const localTeamIds = (local?.teams || []).map(t => t.id);
+    const backupTeamIds = backup.profile.teams.map(t => t.id);
+
+    let games = 0;
+    let newGames = 0;
+    for (const team of backup.profile.teams) {
+      const backupGames = backup.gameHistory[team.id] || [];
+      const localGameIds = (await this.repository.loadGameHistory(team.id)).map(g => g.id);
+
+      games += backupGames.length;
+      newGames += backupGames.filter(g => !localGameIds.includes(g.id)).length;
+    }
+
+    return {
+      mode,
+      teams: backup.profile.teams.length,
+      newTeams: backupTeamIds.filter(id => !localTeamIds.includes(id)).length,
+      updatedTeams: backupTeamIds.filter(id => localTeamIds.includes(id)).length,
+      removedTeams: mode === 'replace' ? localTeamIds.filter(id => !backupTeamIds.includes(id)).length : 0,
+      players: backup.profile.teams.reduce((sum, team) => sum + team.players.length, 0),
+      games,
+      newGames,
+    };
+  }
+
+  // Returns the profile now on the device
+  async restore(backup: CoachBackup, mode: RestoreMode): Promise<CoachProfile> {
+    const local = await this.repository.loadCoachProfile();
+    const backupTeamIds = backup.profile.teams.map(t => t.id);
+
+    let profile: CoachProfile;
+    if (mode === 'replace' || !local) {
+      profile = backup.profile;
+
+      // Teams that are not in the backup go away, along with their games
+      for (const team of local?.teams || []) {
+        if (!backupTeamIds.includes(team.id)) {
+          await this.repository.deleteGameHistory(team.id);
+        }
+      }
+    } else {
+      // Teams in the backup win; teams only on this device are kept
+      const localOnlyTeams = local.teams.filter(t => !backupTeamIds.includes(t.id));
+      const teams = [...backup.profile.teams, ...localOnlyTeams];
+
+      profile = {
+        ...local,
+        teams,
+        activeTeamId: teams.some(t => t.id === local.activeTeamId) ? local.activeTeamId : backup.profile.activeTeamId,
+        isPremium: local.isPremium || backup.profile.isPremium,
+        subscriptionExpiry: [local.subscriptionExpiry, backup.profile.subscriptionExpiry]
+          .filter((date): date is Date => !!date)
+          .sort((a, b) => b.getTime() - a.getTime())[0],
+      };
+    }
+
+    for (const team of backup.profile.teams) {
+      const backupGames = backup.gameHistory[team.id] || [];
+      const localGames = mode === 'replace' ? [] : await this.repository.loadGameHistory(team.id);
+      const backupGameIds = backupGames.map(g => g.id);
+
+      await this.repository.saveGameHistory(team.id, [
+        ...backupGames,
+        ...localGames.filter(g => !backupGameIds.includes(g.id)),
+      ]);
+    }
+
+    await this.repository.saveCoachProfile(profile);
+    return profile;
+  }
+}
\ No newline at end of file
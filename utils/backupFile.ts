@@ -0,0 +1,34 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { CoachBackup, serializeBackup } from './backup';
+
+// Writes the backup to a dated JSON file and opens the share sheet so it can be
+// saved to Files, a cloud drive or sent to the new phone
+export const shareBackupFile = async (backup: CoachBackup): Promise<void> => {
+  const fileName = `house-league-coach-backup-${backup.exportedAt.toISOString().slice(0, 10)}.json`;
+  const file = new File(Paths.cache, fileName);
+
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(serializeBackup(backup));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Save backup',
+  });
+};
+
+// Returns the contents of the chosen file, or null if the coach cancelled
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  return new File(result.assets[0].uri).text();
+};
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { CatchUpPolicy } from '../types';
+
+export const DEFAULT_CATCH_UP_POLICY: CatchUpPolicy = 'partial';
+
+export const CATCH_UP_POLICIES: { id: CatchUpPolicy; name: string; description: string }[] = [
+  { id: 'none', name: 'None', description: 'Late arrivals share the rest of the game evenly' },
+  { id: 'partial', name: 'Partial', description: 'Late arrivals get back half of the time they missed' },
+  { id: 'full', name: 'Full', description: 'Late arrivals play until their total matches everyone else' },
+];
+
+// Share of the missed time a late arrival is scheduled to make up
+const CATCH_UP_SHARE: { [policy in CatchUpPolicy]: number } = {
+  none: 0,
+  partial: 0.5,
+  full: 1,
+};
+
+// Missed minutes the player is not owed back; scheduling treats them as already played
+export const getCatchUpCredit = (missedMinutes: number, policy: CatchUpPolicy = DEFAULT_CATCH_UP_POLICY): number => {
+  return missedMinutes * (1 - CATCH_UP_SHARE[policy]);
+};
+
+export const getCatchUpPolicyName = (policy: CatchUpPolicy = DEFAULT_CATCH_UP_POLICY): string => {
+  return CATCH_UP_POLICIES.find(p => p.id === policy)?.name || policy;
+};
\ No newline at end of file
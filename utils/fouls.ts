@@ -0,0 +1,21 @@
+import { GameSettings } from '../types';
+import { ordinal } from './leagueRules';
+
+export const DEFAULT_FOUL_LIMIT = 5;
+
+// 0 turns foul-outs off; fouls are still counted
+export const FOUL_LIMIT_OPTIONS = [0, 3, 4, 5, 6];
+
+export const getFoulLimit = (settings: GameSettings): number => settings.foulLimit ?? DEFAULT_FOUL_LIMIT;
+
+export const describeFoulLimit = (limit: number): string => {
+  return limit > 0
+    ? `A player is out of the game on their ${ordinal(limit)} foul and is substituted automatically`
+    : 'Fouls are counted but nobody fouls out';
+};
+
+// e.g. "3 fouls", "Fouled out (5 fouls)"
+export const describeFouls = (fouls: number, isFouledOut: boolean): string => {
+  const count = `${fouls} foul${fouls === 1 ? '' : 's'}`;
+  return isFouledOut ? `Fouled out (${count})` : count;
+};
\ No newline at end of file
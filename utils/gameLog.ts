@@ -0,0 +1,54 @@
+import { Game, GameEvent } from '../types';
+
+const formatClock = (minutes: number): string => {
+  return `${Math.floor(minutes)}:${String(Math.round((minutes % 1) * 60)).padStart(2, '0')}`;
+};
+
+const formatTimestamp = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+};
+
+export const describeEvent = (game: Game, event: GameEvent): string => {
+  const playerName = (playerId: string) => {
+    const player = game.roster.find(p => p.id === playerId);
+    return player ? `#${player.jerseyNumber} ${player.name}` : 'Unknown player';
+  };
+  const periodNumber = (periodId: string) => {
+    return game.periods.find(p => p.id === periodId)?.number ?? '?';
+  };
+
+  switch (event.type) {
+    case 'gameStarted':
+      return `Game started with ${event.presentPlayerIds.length} players`;
+    case 'attendanceChanged':
+      return `${playerName(event.playerId)} marked ${event.isPresent ? 'present' : 'absent'}`;
+    case 'lateArrival':
+      return `${playerName(event.playerId)} arrived late`;
+    case 'periodStarted':
+      return `Period ${event.number} lineup: ${event.playerIds.map(playerName).join(', ')}`;
+    case 'clockStarted':
+      return `Period ${periodNumber(event.periodId)} clock started`;
+    case 'clockPaused':
+      return `Period ${periodNumber(event.periodId)} clock paused`;
+    case 'substitution':
+      return `Period ${periodNumber(event.periodId)} at ${formatClock(event.clockTime)}: ` +
+        `${playerName(event.playerInId)} in for ${playerName(event.playerOutId)}`;
+    case 'foul': {
+      const foul = `Period ${periodNumber(event.periodId)} at ${formatClock(event.clockTime)}: foul on ${playerName(event.playerId)}`;
+      if (!event.fouledOut) return foul;
+      return `${foul}, fouled out – ` +
+        (event.substituteId ? `${playerName(event.substituteId)} in` : 'nobody left to come on');
+    }
+    case 'periodCompleted':
+      return `Period ${periodNumber(event.periodId)} completed (${formatClock(event.actualDuration)})`;
+    case 'settingsChanged':
+      return `Settings changed: ${Object.entries(event.settings).map(([key, value]) => `${key} ${value}`).join(', ')}`;
+    case 'gameEnded':
+      return 'Game ended';
+  }
+};
+
+// One line per recorded event, oldest first
+export const formatPlayByPlay = (game: Game): string[] => {
+  return (game.events || []).map(event => `${formatTimestamp(event.timestamp)}  ${describeEvent(game, event)}`);
+};
\ No newline at end of file
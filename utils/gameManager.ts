@@ -1,5 +1,13 @@
-import { Game, Player, Period, GameSettings, LineupSuggestion } from '../types';
-import { StrictLineupGenerator } from './strictLineupGenerator';
+import { Game, Player, Period, GameSettings, LineupSuggestion, Stint, PlannedPeriod, GameEvent, LineupConstraints, PeriodShares } from '../types';
+import { lineupStrategies, LineupStrategy } from './lineupStrategies';
+import { RotationPlanner } from './rotationPlanner';
+import { seedFromString } from './random';
+import { getCatchUpCredit } from './catchUpPolicy';
+import { GameSegment, getSegments, hasSegments } from './gameSegments';
+import { getFoulLimit } from './fouls';
+
+// The suggestion plus this many alternatives at most, for the coach to compare
+const LINEUP_OPTIONS_COUNT = 4;
 
 export class GameManager {
   private game: Game;
@@ -8,31 +16,341 @@ export class GameManager {
     this.game = game;
   }
 
+  // Rebuilds a game from its event log, starting from the roster with nobody present
+  static replay(game: Game, events: GameEvent[] = game.events || []): Game {
+    const replayed: Game = {
+      ...game,
+      roster: game.roster.map(player => ({ ...player, isPresent: false, totalPlayingTime: 0 })),
+      periods: [],
+      isActive: false,
+      isFinished: undefined,
+      endedAt: undefined,
+      attendance: undefined,
+      fouls: undefined,
+      events: []
+    };
+
+    const manager = new GameManager(replayed);
+    events.forEach(event => manager.applyEvent(event));
+    return replayed;
+  }
+
+  applyEvent(event: GameEvent): void {
+    switch (event.type) {
+      case 'gameStarted':
+        this.game.settings = { ...event.settings };
+        this.game.roster = this.game.roster.map(player => ({
+          ...player,
+          isPresent: event.presentPlayerIds.includes(player.id)
+        }));
+        this.startGame(event.timestamp);
+        break;
+      case 'attendanceChanged':
+        this.markPlayerPresent(event.playerId, event.isPresent, event.timestamp);
+        break;
+      case 'lateArrival':
+        this.addLatePlayer(event.playerId, event.timestamp);
+        break;
+      case 'periodStarted': {
+        const lineup = event.playerIds
+          .map(id => this.game.roster.find(p => p.id === id))
+          .filter((p): p is Player => !!p);
+        this.addPeriod({
+          id: event.periodId,
+          number: event.number,
+          lineup,
+          isCompleted: false,
+          stints: lineup.map(player => ({ playerId: player.id, startTime: 0 }))
+        }, event.timestamp);
+        break;
+      }
+      case 'clockStarted':
+        this.startPeriod(event.periodId, event.timestamp);
+        break;
+      case 'clockPaused':
+        this.pausePeriod(event.periodId, event.timestamp);
+        break;
+      case 'substitution':
+        this.swapPlayers(event.periodId, event.playerOutId, event.playerInId, event.timestamp);
+        break;
+      case 'foul':
+        this.addFoul(event.periodId, event.playerId, event.timestamp, event.substituteId);
+        break;
+      case 'periodCompleted':
+        this.completePeriod(event.periodId, event.actualDuration, event.timestamp);
+        break;
+      case 'settingsChanged':
+        this.updateGameSettings(event.settings, event.timestamp);
+        break;
+      case 'gameEnded':
+        this.endGame(event.timestamp);
+        break;
+    }
+  }
+
+  private recordEvent(event: GameEvent): void {
+    this.game.events = [...(this.game.events || []), event];
+  }
+
+  // Set before the game starts; the snapshot is kept so later ledger changes do not shift this game's targets
+  setSeasonCarryover(carryover: { [playerId: string]: number }): void {
+    this.game.seasonCarryover = carryover;
+  }
+
+  startGame(now: number = Date.now()): void {
+    this.game.isActive = true;
+    this.game.attendance = {};
+    this.game.roster.filter(p => p.isPresent).forEach(player => {
+      this.game.attendance![player.id] = { arrivedAt: now, missedMinutes: 0 };
+    });
+    this.recordEvent({
+      type: 'gameStarted',
+      timestamp: now,
+      presentPlayerIds: this.game.roster.filter(p => p.isPresent).map(p => p.id),
+      settings: { ...this.game.settings }
+    });
+  }
+
   // Player management
-  markPlayerPresent(playerId: string, isPresent: boolean): void {
+  markPlayerPresent(playerId: string, isPresent: boolean, now: number = Date.now()): void {
     const player = this.game.roster.find(p => p.id === playerId);
     if (player) {
-      player.isPresent = isPresent;
+      // Replace rather than mutate - roster entries are shared with the team's player list
+      this.game.roster = this.game.roster.map(p => p.id === playerId ? { ...p, isPresent } : p);
+      if (this.game.isActive) {
+        this.recordAttendance(playerId, isPresent, now);
+      }
+      this.recordEvent({ type: 'attendanceChanged', timestamp: now, playerId, isPresent });
     }
   }
 
-  addLatePlayer(playerId: string): void {
+  // A player arriving (or coming back) after tip-off; the time they missed is kept for the catch-up policy
+  addLatePlayer(playerId: string, now: number = Date.now()): void {
     const player = this.game.roster.find(p => p.id === playerId);
     if (player) {
-      player.isPresent = true;
-      // Calculate catch-up playing time
-      this.calculateCatchUpTime(player);
+      this.game.roster = this.game.roster.map(p => p.id === playerId ? { ...p, isPresent: true } : p);
+
+      const away = this.game.attendance?.[playerId];
+      const courtMinutesMissed = this.getCourtMinutesPlayed(now) - (away?.courtMinutesWhenLeft ?? 0);
+      const presentPlayers = this.game.roster.filter(p => p.isPresent).length;
+      this.recordAttendance(playerId, true, now);
+      this.game.attendance![playerId].missedMinutes += Math.max(0, courtMinutesMissed) / presentPlayers;
+
+      this.recordEvent({ type: 'lateArrival', timestamp: now, playerId });
+    }
+  }
+
+  private recordAttendance(playerId: string, isPresent: boolean, now: number): void {
+    const attendance = this.game.attendance?.[playerId] || { missedMinutes: 0 };
+
+    this.game.attendance = {
+      ...this.game.attendance,
+      [playerId]: isPresent
+        ? { ...attendance, arrivedAt: now, departedAt: undefined, courtMinutesWhenLeft: undefined }
+        : { ...attendance, departedAt: now, courtMinutesWhenLeft: this.getCourtMinutesPlayed(now) },
+    };
+  }
+
+  // Minutes missed by late arrivals that the catch-up policy does not give back, per player
+  getCatchUpCredits(): { [playerId: string]: number } {
+    const credits: { [playerId: string]: number } = {};
+
+    Object.entries(this.game.attendance || {}).forEach(([playerId, attendance]) => {
+      const credit = getCatchUpCredit(attendance.missedMinutes, this.game.settings.catchUpPolicy);
+      if (credit > 0) {
+        credits[playerId] = credit;
+      }
+    });
+
+    return credits;
+  }
+
+  // Fouls
+  getFouls(playerId: string): number {
+    return this.game.fouls?.[playerId] || 0;
+  }
+
+  isFouledOut(playerId: string): boolean {
+    const foulLimit = getFoulLimit(this.game.settings);
+    return foulLimit > 0 && this.getFouls(playerId) >= foulLimit;
+  }
+
+  // Present players who can still be put on court
+  getEligiblePlayers(): Player[] {
+    return this.game.roster.filter(p => p.isPresent && !this.isFouledOut(p.id));
+  }
+
+  // The roster the lineup generators see: fouled-out players count as gone, so the fair shares are split without them
+  private getLineupRoster(): Player[] {
+    return this.game.roster.map(player =>
+      player.isPresent && this.isFouledOut(player.id) ? { ...player, isPresent: false } : player);
+  }
+
+  // A foul on a player on court. The one that reaches the foul limit takes them off for the rest of the game;
+  // substituteId is who comes on when replaying, otherwise the bench player with the least court time does
+  addFoul(periodId: string, playerId: string, now: number = Date.now(), substituteId?: string): boolean {
+    if (this.game.isFinished) return false;
+
+    const period = this.game.periods.find(p => p.id === periodId);
+    const player = period?.lineup.find(p => p.id === playerId);
+    if (!period || period.isCompleted || !player) return false;
+
+    this.game.fouls = { ...this.game.fouls, [playerId]: this.getFouls(playerId) + 1 };
+    const clockTime = this.getElapsedTime(period, now);
+    const fouledOut = this.isFouledOut(playerId);
+
+    let substitute: Player | undefined;
+    if (fouledOut) {
+      substitute = substituteId
+        ? this.getEligiblePlayers().find(p => p.id === substituteId)
+        : this.chooseSubstitute(period, player, now);
+      this.replacePlayer(period, playerId, substitute, clockTime);
     }
+
+    this.recordEvent({
+      type: 'foul',
+      timestamp: now,
+      periodId,
+      playerId,
+      clockTime,
+      ...(fouledOut ? { fouledOut, substituteId: substitute?.id } : {})
+    });
+    return true;
+  }
+
+  // Least court time first, counting the time the fair share adjustments treat as played;
+  // ties go to someone who plays the same position
+  private chooseSubstitute(period: Period, playerOut: Player, now: number): Player | undefined {
+    const adjustments = this.getLineupConstraints().fairShareAdjustments || {};
+    const openPeriodMinutes = this.getStintMinutes(period, now);
+    const minutes = (player: Player) =>
+      player.totalPlayingTime + (openPeriodMinutes.get(player.id) || 0) - (adjustments[player.id] || 0);
+    const otherPosition = (player: Player) => player.positions[0] === playerOut.positions[0] ? 0 : 1;
+
+    return this.getEligiblePlayers()
+      .filter(player => !period.lineup.some(p => p.id === player.id))
+      .sort((a, b) => minutes(a) - minutes(b) || otherPosition(a) - otherPosition(b))[0];
+  }
+
+  // Player minutes on court so far, counting the open period up to now
+  private getCourtMinutesPlayed(now: number): number {
+    return this.game.periods.reduce((sum, period) =>
+      sum + Array.from(this.getStintMinutes(period, now).values()).reduce((total, m) => total + m, 0), 0);
   }
 
   // Period management
-  generateNextLineup(): LineupSuggestion {
-    const generator = new StrictLineupGenerator(
-      this.game.roster,
+  // The same seed always gives the same lineup; pass a new one to get another suggestion
+  generateNextLineup(seed: number = this.getLineupSeed(), followPlan: boolean = true): LineupSuggestion {
+    const ranked = this.getLineupStrategy().generateLineups(
+      this.getLineupRoster(),
       this.game.settings,
-      this.game.periods
+      this.game.periods,
+      seed,
+      this.getLineupConstraints(),
+      LINEUP_OPTIONS_COUNT
+    ).map((suggestion, index) => index === 0 ? { ...suggestion, seed: suggestion.seed ?? seed } : suggestion);
+    const lineupKey = (players: Player[]) => players.map(p => p.id).sort().join(',');
+
+    // Follow the full-game plan when there is one for the next period; the strategy's lineups are the alternatives
+    const planned = followPlan ? this.getPlannedPeriod(this.game.periods.length + 1) : undefined;
+    if (planned) {
+      const reasons: { [playerId: string]: string } = {};
+      this.getEligiblePlayers().forEach(player => {
+        reasons[player.id] = planned.players.some(p => p.id === player.id)
+          ? `On court: the rotation plan has them playing period ${planned.number}`
+          : `Benched: the rotation plan has them sitting period ${planned.number}`;
+      });
+
+      return {
+        players: planned.players,
+        averageSkillLevel: planned.averageSkillLevel,
+        playingTimeBalance: planned.playingTimeBalance,
+        positionBalance: planned.positionBalance,
+        seed,
+        reasons,
+        alternatives: ranked
+          .filter(suggestion => lineupKey(suggestion.players) !== lineupKey(planned.players))
+          .slice(0, LINEUP_OPTIONS_COUNT - 1)
+      };
+    }
+
+    // A strategy finds nothing when no one is eligible to play; say so with an empty lineup
+    if (ranked.length === 0) {
+      return { players: [], averageSkillLevel: 0, playingTimeBalance: 0, positionBalance: 0, seed, alternatives: [] };
+    }
+
+    const [best, ...alternatives] = ranked;
+    return { ...best, alternatives };
+  }
+
+  getLineupConstraints(): LineupConstraints {
+    const adjustments: { [playerId: string]: number } = {};
+    if (this.game.settings.payDownSeasonDebt) {
+      Object.entries(this.game.seasonCarryover || {}).forEach(([playerId, minutes]) => {
+        adjustments[playerId] = minutes;
+      });
+    }
+    Object.entries(this.getCatchUpCredits()).forEach(([playerId, credit]) => {
+      adjustments[playerId] = (adjustments[playerId] || 0) - credit;
+    });
+
+    // Strategies count periods from these rather than from the lineup a period ended with
+    const periodShares: { [periodId: string]: PeriodShares } = {};
+    this.game.periods.filter(p => p.isCompleted).forEach(period => {
+      periodShares[period.id] = this.getPeriodShares(period);
+    });
+
+    return {
+      pairingRules: this.game.pairingRules || [],
+      rotationLimits: {
+        maxConsecutiveBench: this.game.settings.maxConsecutiveBench,
+        maxConsecutivePlay: this.game.settings.maxConsecutivePlay,
+      },
+      positionRules: this.game.positionRules || [],
+      leagueRules: this.game.leagueRules || [],
+      fairShareAdjustments: adjustments,
+      periodShares,
+    };
+  }
+
+  // Each period starts from its own seed, so a suggestion can be reproduced from the saved game
+  getLineupSeed(periodNumber: number = this.game.periods.length + 1): number {
+    return seedFromString(`${this.game.id}:${periodNumber}`);
+  }
+
+  getLineupStrategy(): LineupStrategy {
+    return lineupStrategies.get(this.game.settings.lineupStrategy);
+  }
+
+  // Full-game rotation planning
+  planRotation(): PlannedPeriod[] {
+    const planner = new RotationPlanner(
+      this.getLineupRoster(),
+      this.game.settings,
+      this.game.periods,
+      this.getLineupConstraints()
     );
-    return generator.generateOptimalLineup();
+    this.game.rotationPlan = planner.planRemainingPeriods();
+    return this.game.rotationPlan;
+  }
+
+  getPlannedPeriod(periodNumber: number): PlannedPeriod | null {
+    const planned = this.game.rotationPlan?.find(p => p.number === periodNumber);
+    if (!planned) return null;
+
+    // Use the current roster entries so playing time shown is up to date
+    const players = planned.players.map(player => this.getEligiblePlayers().find(p => p.id === player.id));
+    if (players.some(p => !p)) return null;
+
+    return { ...planned, players: players as Player[] };
+  }
+
+  isFollowingPlan(period: Period): boolean {
+    const planned = this.game.rotationPlan?.find(p => p.number === period.number);
+    if (!planned) return false;
+
+    return planned.players.length === period.lineup.length &&
+      planned.players.every(player => period.lineup.some(p => p.id === player.id));
   }
 
   createPeriodFromSuggestion(suggestion: LineupSuggestion): Period {
@@ -42,102 +360,392 @@ export class GameManager {
       id: `period-${nextPeriodNumber}`,
       number: nextPeriodNumber,
       lineup: suggestion.players,
-      isCompleted: false
+      isCompleted: false,
+      stints: suggestion.players.map(player => ({ playerId: player.id, startTime: 0 }))
     };
   }
 
-  startPeriod(periodId: string): void {
+  addPeriod(period: Period, now: number = Date.now()): void {
+    this.game.periods = [...this.game.periods, period];
+    this.recordEvent({
+      type: 'periodStarted',
+      timestamp: now,
+      periodId: period.id,
+      number: period.number,
+      playerIds: period.lineup.map(p => p.id)
+    });
+  }
+
+  // Period clock - starting a paused period resumes it
+  startPeriod(periodId: string, now: number = Date.now()): boolean {
     const period = this.game.periods.find(p => p.id === periodId);
-    if (period && !period.isCompleted) {
-      // Period is now active - no specific action needed
-    }
+    if (!period || period.isCompleted || this.game.isFinished) return false;
+    if (period.clockStartedAt !== undefined) return false;
+
+    period.clockStartedAt = now;
+    this.recordEvent({ type: 'clockStarted', timestamp: now, periodId });
+    return true;
   }
 
-  completePeriod(periodId: string, actualDuration?: number): void {
+  pausePeriod(periodId: string, now: number = Date.now()): boolean {
     const period = this.game.periods.find(p => p.id === periodId);
-    if (period) {
-      period.isCompleted = true;
-      period.actualDuration = actualDuration || this.game.settings.periodDuration;
+    if (!period || period.isCompleted || period.clockStartedAt === undefined) return false;
 
-      // Update playing time for all players in this period
-      period.lineup.forEach(player => {
-        const gamePlayer = this.game.roster.find(p => p.id === player.id);
-        if (gamePlayer) {
-          gamePlayer.totalPlayingTime += period.actualDuration!;
-        }
-      });
+    period.elapsedTime = this.getElapsedTime(period, now);
+    period.clockStartedAt = undefined;
+    this.recordEvent({ type: 'clockPaused', timestamp: now, periodId });
+    return true;
+  }
+
+  isClockRunning(period: Period): boolean {
+    return !period.isCompleted && period.clockStartedAt !== undefined;
+  }
+
+  getElapsedTime(period: Period, now: number = Date.now()): number {
+    const running = period.clockStartedAt !== undefined
+      ? Math.max(0, now - period.clockStartedAt) / 60000
+      : 0;
+
+    return (period.elapsedTime || 0) + running;
+  }
+
+  getRemainingTime(period: Period, now: number = Date.now()): number {
+    return Math.max(0, this.game.settings.periodDuration - this.getElapsedTime(period, now));
+  }
+
+  completePeriod(periodId: string, actualDuration?: number, now: number = Date.now()): void {
+    const period = this.game.periods.find(p => p.id === periodId);
+    if (period && !period.isCompleted) {
+      const elapsed = this.getElapsedTime(period, now);
+
+      period.isCompleted = true;
+      period.elapsedTime = elapsed;
+      period.clockStartedAt = undefined;
+      // Use the clock when it was run, otherwise assume the full period was played
+      period.actualDuration = actualDuration ?? (elapsed > 0 ? elapsed : this.game.settings.periodDuration);
+
+      // Close the stints of everyone still on court at the final buzzer
+      period.stints = this.getStints(period).map(stint => ({
+        ...stint,
+        endTime: stint.endTime ?? period.actualDuration
+      }));
+
+      // Update playing time for every player who was on court during this period.
+      // Replace rather than mutate - roster entries are shared with the team's player list
+      const stintMinutes = this.getStintMinutes(period);
+      this.game.roster = this.game.roster.map(player => stintMinutes.has(player.id)
+        ? { ...player, totalPlayingTime: player.totalPlayingTime + stintMinutes.get(player.id)! }
+        : player);
+
+      this.recordEvent({ type: 'periodCompleted', timestamp: now, periodId, actualDuration: period.actualDuration });
     }
   }
 
+  // Stints - who was on court and when, in minutes on the period clock
+  getStints(period: Period): Stint[] {
+    return period.stints || period.lineup.map(player => ({ playerId: player.id, startTime: 0 }));
+  }
+
+  // Share of the period each player was on court for, so a player subbed in or out mid-period gets part of it
+  getPeriodShares(period: Period): PeriodShares {
+    const periodLength = period.actualDuration || this.game.settings.periodDuration;
+    const shares: PeriodShares = {};
+    this.getStintMinutes(period).forEach((minutes, playerId) => {
+      shares[playerId] = minutes / periodLength;
+    });
+    return shares;
+  }
+
+  getStintMinutes(period: Period, now: number = Date.now()): Map<string, number> {
+    const periodLength = period.isCompleted
+      ? period.actualDuration ?? this.game.settings.periodDuration
+      : this.getElapsedTime(period, now);
+
+    const minutes = new Map<string, number>();
+    this.getStints(period).forEach(stint => {
+      const end = Math.min(stint.endTime ?? periodLength, periodLength);
+      const played = Math.max(0, end - stint.startTime);
+      minutes.set(stint.playerId, (minutes.get(stint.playerId) || 0) + played);
+    });
+
+    return minutes;
+  }
+
   // Manual lineup adjustments
-  swapPlayers(periodId: string, playerOutId: string, playerInId: string): boolean {
+  swapPlayers(periodId: string, playerOutId: string, playerInId: string, now: number = Date.now()): boolean {
+    if (this.game.isFinished) return false;
+
     const period = this.game.periods.find(p => p.id === periodId);
     if (!period || period.isCompleted) return false;
 
-    const playerOutIndex = period.lineup.findIndex(p => p.id === playerOutId);
-    const playerIn = this.game.roster.find(p => p.id === playerInId && p.isPresent);
-
-    if (playerOutIndex === -1 || !playerIn) return false;
+    const playerIn = this.getEligiblePlayers().find(p => p.id === playerInId);
+    if (!period.lineup.some(p => p.id === playerOutId) || !playerIn) return false;
 
     // Check if player is already in lineup
     if (period.lineup.some(p => p.id === playerInId)) return false;
 
-    period.lineup[playerOutIndex] = playerIn;
+    const clockTime = this.getElapsedTime(period, now);
+    this.replacePlayer(period, playerOutId, playerIn, clockTime);
+    this.recordEvent({ type: 'substitution', timestamp: now, periodId, playerOutId, playerInId, clockTime });
     return true;
   }
 
+  // End the outgoing stint and start a new one at the clock time; with nobody coming on the team plays one short.
+  // Stints that never got any time (swaps before the clock started) are dropped.
+  private replacePlayer(period: Period, playerOutId: string, playerIn: Player | undefined, clockTime: number): void {
+    period.stints = [
+      ...this.getStints(period)
+        .map(stint => stint.playerId === playerOutId && stint.endTime === undefined
+          ? { ...stint, endTime: clockTime }
+          : stint)
+        .filter(stint => stint.endTime === undefined || stint.endTime > stint.startTime),
+      ...(playerIn ? [{ playerId: playerIn.id, startTime: clockTime }] : [])
+    ];
+
+    period.lineup = playerIn
+      ? period.lineup.map(p => p.id === playerOutId ? playerIn : p)
+      : period.lineup.filter(p => p.id !== playerOutId);
+  }
+
   // Game statistics
-  getPlayingTimeReport(): Array<{ player: Player; minutes: number; target: number; difference: number }> {
-    const totalGameTime = this.game.settings.periodsCount * this.game.settings.periodDuration;
-    const presentPlayers = this.game.roster.filter(p => p.isPresent).length;
-    const playersPerPeriod = this.game.settings.playersOnCourt;
+  // How much of each completed period every player was at the game for, from the arrivals and departures
+  // in the event log. Games saved without a log count everyone present now or on court as there throughout.
+  private getAttendanceShares(): Map<string, PeriodShares> {
+    const attendance = new Map<string, PeriodShares>();
+    const events = this.game.events || [];
+
+    if (!events.some(event => event.type === 'gameStarted')) {
+      this.game.periods.forEach(period => {
+        const present: PeriodShares = {};
+        this.game.roster.filter(p => p.isPresent).forEach(player => {
+          present[player.id] = 1;
+        });
+        Object.keys(this.getPeriodShares(period)).forEach(playerId => {
+          present[playerId] = 1;
+        });
+        attendance.set(period.id, present);
+      });
+      return attendance;
+    }
 
-    const targetTimePerPlayer = (totalGameTime * playersPerPeriod) / presentPlayers;
+    const arrivedAt = new Map<string, number>();
+    const visits: Array<{ playerId: string; from: number; to: number }> = [];
+    const openedAt = new Map<string, number>();
+    const periodSpans: Array<{ periodId: string; from: number; to: number }> = [];
+    const arrive = (playerId: string, now: number) => {
+      if (!arrivedAt.has(playerId)) arrivedAt.set(playerId, now);
+    };
 
-    return this.game.roster
-      .filter(p => p.isPresent)
-      .map(player => ({
-        player,
-        minutes: player.totalPlayingTime,
-        target: targetTimePerPlayer,
-        difference: player.totalPlayingTime - targetTimePerPlayer
-      }))
-      .sort((a, b) => a.difference - b.difference);
+    let started = false;
+    events.forEach(event => {
+      if (event.type === 'gameStarted') {
+        started = true;
+        event.presentPlayerIds.forEach(playerId => arrive(playerId, event.timestamp));
+      } else if (!started) {
+        return;
+      } else if (event.type === 'lateArrival' || (event.type === 'attendanceChanged' && event.isPresent)) {
+        arrive(event.playerId, event.timestamp);
+      } else if (event.type === 'attendanceChanged' && arrivedAt.has(event.playerId)) {
+        visits.push({ playerId: event.playerId, from: arrivedAt.get(event.playerId)!, to: event.timestamp });
+        arrivedAt.delete(event.playerId);
+      } else if (event.type === 'periodStarted') {
+        openedAt.set(event.periodId, event.timestamp);
+      } else if (event.type === 'periodCompleted' && openedAt.has(event.periodId)) {
+        periodSpans.push({ periodId: event.periodId, from: openedAt.get(event.periodId)!, to: event.timestamp });
+      }
+    });
+    arrivedAt.forEach((from, playerId) => visits.push({ playerId, from, to: Infinity }));
+
+    periodSpans.forEach(span => {
+      const length = span.to - span.from;
+      const present: PeriodShares = {};
+      visits.forEach(visit => {
+        const overlap = length > 0
+          ? Math.max(0, Math.min(span.to, visit.to) - Math.max(span.from, visit.from)) / length
+          : visit.from <= span.from && span.from < visit.to ? 1 : 0;
+        if (overlap > 0) {
+          present[visit.playerId] = (present[visit.playerId] || 0) + overlap;
+        }
+      });
+      attendance.set(span.periodId, present);
+    });
+
+    return attendance;
   }
 
-  // Period-based statistics (more accurate for rotation fairness)
-  getPeriodReport(): Array<{ player: Player; periodsPlayed: number; targetPeriods: number; difference: number }> {
-    const completedPeriods = this.game.periods.filter(p => p.isCompleted).length;
-    const presentPlayers = this.game.roster.filter(p => p.isPresent).length;
-    const totalPlayerPeriods = completedPeriods * this.game.settings.playersOnCourt;
-    const targetPeriodsPerPlayer = totalPlayerPeriods / presentPlayers;
-
-    // Count periods played for each player
-    const periodCounts = new Map<string, number>();
-    this.game.roster.forEach(player => {
-      periodCounts.set(player.id, 0);
+  // Splits what each period handed out evenly between the players at the game for it, weighted by how much
+  // of the period they were there for. A fouled-out player is held to what they got.
+  private splitByAttendance(periods: Period[], given: (period: Period) => Map<string, number>): Map<string, number> {
+    const attendance = this.getAttendanceShares();
+    const fair = new Map<string, number>();
+    const add = (playerId: string, amount: number) => fair.set(playerId, (fair.get(playerId) || 0) + amount);
+
+    periods.forEach(period => {
+      let shared = 0;
+      given(period).forEach((amount, playerId) => {
+        if (this.isFouledOut(playerId)) {
+          add(playerId, amount);
+        } else {
+          shared += amount;
+        }
+      });
+
+      const weights = Object.entries(attendance.get(period.id) || {}).filter(([playerId]) => !this.isFouledOut(playerId));
+      const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+      if (totalWeight === 0) return;
+      weights.forEach(([playerId, weight]) => add(playerId, shared * weight / totalWeight));
     });
 
+    return fair;
+  }
+
+  // Each player's fair share of the completed periods over the time they were at the game, in minutes and in periods.
+  // A late arrival also gets back the part of the time they missed that the catch-up policy makes up.
+  getFairShares(): Map<string, { minutes: number; periods: number }> {
+    const completed = this.game.periods.filter(p => p.isCompleted);
+    const minutes = this.splitByAttendance(completed, period => this.getStintMinutes(period));
+    const periods = this.splitByAttendance(completed, period => new Map(Object.entries(this.getPeriodShares(period))));
+    const fairShares = new Map<string, { minutes: number; periods: number }>();
+
+    minutes.forEach((fairMinutes, playerId) => {
+      fairShares.set(playerId, { minutes: fairMinutes, periods: periods.get(playerId) || 0 });
+    });
+
+    const catchUpCredits = this.getCatchUpCredits();
+    Object.entries(this.game.attendance || {}).forEach(([playerId, attendance]) => {
+      const madeUp = attendance.missedMinutes - (catchUpCredits[playerId] || 0);
+      if (madeUp <= 0 || this.isFouledOut(playerId)) return;
+
+      const fair = fairShares.get(playerId) || { minutes: 0, periods: 0 };
+      fairShares.set(playerId, {
+        minutes: fair.minutes + madeUp,
+        periods: fair.periods + madeUp / this.game.settings.periodDuration,
+      });
+    });
+
+    return fairShares;
+  }
+
+  // Minutes are real court time; catchUpCredit is the missed time scheduling treats as played.
+  // The target is the fair share of the periods played so far over the time the player was there,
+  // plus an even share of the periods still to come. A fouled-out player's target is the time they got.
+  getPlayingTimeReport(): Array<{ player: Player; minutes: number; target: number; difference: number; catchUpCredit: number }> {
+    const eligiblePlayers = this.getEligiblePlayers().length;
+    const playersPerPeriod = this.game.settings.playersOnCourt;
+    const periodsLeft = Math.max(0, this.game.settings.periodsCount - this.game.periods.filter(p => p.isCompleted).length);
+
+    // Minutes come from the recorded stints so mid-period substitutions get partial credit
+    const playedMinutes = new Map<string, number>();
     this.game.periods.forEach(period => {
       if (period.isCompleted) {
-        period.lineup.forEach(player => {
-          const current = periodCounts.get(player.id) || 0;
-          periodCounts.set(player.id, current + 1);
+        this.getStintMinutes(period).forEach((minutes, playerId) => {
+          playedMinutes.set(playerId, (playedMinutes.get(playerId) || 0) + minutes);
         });
       }
     });
 
+    const catchUpCredits = this.getCatchUpCredits();
+    const fairShares = this.getFairShares();
+    // With nobody eligible (no one present, or everyone fouled out) there is no share to hand out
+    const minutesLeftPerPlayer = eligiblePlayers > 0
+      ? periodsLeft * this.game.settings.periodDuration * playersPerPeriod / eligiblePlayers
+      : 0;
+
     return this.game.roster
       .filter(p => p.isPresent)
-      .map(player => ({
-        player,
-        periodsPlayed: periodCounts.get(player.id) || 0,
-        targetPeriods: targetPeriodsPerPlayer,
-        difference: (periodCounts.get(player.id) || 0) - targetPeriodsPerPlayer
-      }))
+      .map(player => {
+        const minutes = playedMinutes.get(player.id) || 0;
+        const target = this.isFouledOut(player.id)
+          ? minutes
+          : (fairShares.get(player.id)?.minutes || 0) + minutesLeftPerPlayer;
+        return {
+          player,
+          minutes,
+          target,
+          difference: minutes - target,
+          catchUpCredit: catchUpCredits[player.id] || 0
+        };
+      })
       .sort((a, b) => a.difference - b.difference);
   }
 
+  // Period-based statistics (more accurate for rotation fairness)
+  // Targets are the fair share of the completed periods over the time each player was there.
+  // In a game split into halves or quarters, segments breaks the count down for each one started so far.
+  // Fouled-out players are held to the periods they got, the same as in getPlayingTimeReport.
+  getPeriodReport(): Array<{
+    player: Player;
+    periodsPlayed: number;
+    targetPeriods: number;
+    difference: number;
+    segments: Array<{ segment: GameSegment; periodsPlayed: number; targetPeriods: number }>;
+  }> {
+    const completed = this.game.periods.filter(p => p.isCompleted);
+    const fairShares = this.getFairShares();
+    const sharesOf = (period: Period) => new Map(Object.entries(this.getPeriodShares(period)));
+
+    // A player subbed in or out mid-period is credited with the share of the period they played
+    const countPeriods = (periods: Period[]) => {
+      const periodCounts = new Map<string, number>();
+      periods.forEach(period => {
+        Object.entries(this.getPeriodShares(period)).forEach(([playerId, share]) => {
+          periodCounts.set(playerId, (periodCounts.get(playerId) || 0) + share);
+        });
+      });
+      return periodCounts;
+    };
+
+    const periodCounts = countPeriods(completed);
+
+    const segments = hasSegments(this.game.settings)
+      ? getSegments(this.game.settings)
+        .map(segment => {
+          const periods = completed.filter(p => p.number >= segment.firstPeriod && p.number <= segment.lastPeriod);
+          const counts = countPeriods(periods);
+          return { segment, counts, targets: this.splitByAttendance(periods, sharesOf), started: periods.length > 0 };
+        })
+        .filter(segment => segment.started)
+      : [];
+
+    return this.game.roster
+      .filter(p => p.isPresent)
+      .map(player => {
+        const isFouledOut = this.isFouledOut(player.id);
+        const periodsPlayed = periodCounts.get(player.id) || 0;
+        const targetPeriods = isFouledOut ? periodsPlayed : fairShares.get(player.id)?.periods || 0;
+        return {
+          player,
+          periodsPlayed,
+          targetPeriods,
+          difference: periodsPlayed - targetPeriods,
+          segments: segments.map(({ segment, counts, targets }) => ({
+            segment,
+            periodsPlayed: counts.get(player.id) || 0,
+            targetPeriods: targets.get(player.id) || 0
+          }))
+        };
+      })
+      .sort((a, b) => a.difference - b.difference);
+  }
+
+  // Final fairness numbers shown when the game is ended; fouled-out players are left out of them
+  getFinalSummary(): { completedPeriods: number; playersPresent: number; minPeriods: number; maxPeriods: number; playingTimeBalance: number } {
+    const periodReport = this.getPeriodReport();
+    const periodsPlayed = periodReport.filter(item => !this.isFouledOut(item.player.id)).map(item => item.periodsPlayed);
+    const minutes = this.getPlayingTimeReport().filter(item => !this.isFouledOut(item.player.id)).map(item => item.minutes);
+
+    const averageMinutes = minutes.reduce((sum, m) => sum + m, 0) / (minutes.length || 1);
+    const variance = minutes.reduce((sum, m) => sum + Math.pow(m - averageMinutes, 2), 0) / (minutes.length || 1);
+
+    return {
+      completedPeriods: this.game.periods.filter(p => p.isCompleted).length,
+      playersPresent: periodReport.length,
+      minPeriods: periodsPlayed.length > 0 ? Math.min(...periodsPlayed) : 0,
+      maxPeriods: periodsPlayed.length > 0 ? Math.max(...periodsPlayed) : 0,
+      playingTimeBalance: averageMinutes > 0 ? Math.max(0, 1 - (Math.sqrt(variance) / averageMinutes)) : 1
+    };
+  }
+
   getGameProgress(): { completedPeriods: number; totalPeriods: number; timeRemaining: number } {
     const completed = this.game.periods.filter(p => p.isCompleted).length;
     const total = this.game.settings.periodsCount + this.game.settings.overtimePeriods;
@@ -151,21 +759,25 @@ export class GameManager {
   }
 
   // Helper methods
-  private calculateCatchUpTime(player: Player): void {
-    const completedPeriods = this.game.periods.filter(p => p.isCompleted).length;
-    if (completedPeriods === 0) return;
+  // Game completion
+  hasOpenPeriod(): boolean {
+    return this.game.periods.some(p => !p.isCompleted);
+  }
 
-    const presentPlayers = this.game.roster.filter(p => p.isPresent).length;
-    const averageTimePerPeriod = this.game.settings.periodDuration * this.game.settings.playersOnCourt / presentPlayers;
-    const expectedTime = averageTimePerPeriod * completedPeriods;
+  endGame(now: number = Date.now()): boolean {
+    // A period that is still being played has to be completed first
+    if (this.game.isFinished || this.hasOpenPeriod()) return false;
 
-    // Player starts with deficit
-    player.totalPlayingTime = Math.max(0, expectedTime * 0.7); // Give them 70% of expected time as starting point
+    this.game.isFinished = true;
+    this.game.endedAt = new Date(now);
+    this.recordEvent({ type: 'gameEnded', timestamp: now });
+    return true;
   }
 
   // Settings management
-  updateGameSettings(newSettings: Partial<GameSettings>): void {
+  updateGameSettings(newSettings: Partial<GameSettings>, now: number = Date.now()): void {
     this.game.settings = { ...this.game.settings, ...newSettings };
+    this.recordEvent({ type: 'settingsChanged', timestamp: now, settings: newSettings });
   }
 
   canAddOvertimePeriod(): boolean {
@@ -179,6 +791,7 @@ export class GameManager {
     if (overtimePeriods >= this.game.settings.overtimePeriods) return null;
 
     const suggestion = this.generateNextLineup();
+    if (suggestion.players.length === 0) return null;
     return this.createPeriodFromSuggestion(suggestion);
   }
 }
\ No newline at end of file
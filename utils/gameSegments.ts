@@ -0,0 +1,85 @@
+import { GameSettings, PeriodShares, Player } from '../types';
+import { LeagueRequirements, getLeagueRequirements, ordinal } from './leagueRules';
+import { countPeriodsPlayed } from './periodShares';
+
+// A half or quarter: a run of regular periods that playing time is evened out over
+export interface GameSegment {
+  number: number;
+  name: string; // e.g. "1st half"
+  firstPeriod: number;
+  lastPeriod: number;
+}
+
+export const SEGMENT_FORMATS: { count: number; name: string; description: string }[] = [
+  { count: 1, name: 'Periods', description: 'Playing time is evened out over the whole game' },
+  { count: 2, name: 'Halves', description: 'Playing time is evened out in each half' },
+  { count: 4, name: 'Quarters', description: 'Playing time is evened out in each quarter' },
+];
+
+const SEGMENT_NOUNS: { [count: number]: string } = { 2: 'half', 4: 'quarter' };
+
+// Splits the regular periods into the configured number of segments. When they do not divide
+// evenly the earlier segments get the extra periods. Overtime is not part of any segment.
+export const getSegments = (settings: GameSettings): GameSegment[] => {
+  const count = Math.max(1, Math.min(settings.segmentsCount || 1, settings.periodsCount));
+  const noun = SEGMENT_NOUNS[count] || 'segment';
+  const segments: GameSegment[] = [];
+
+  let firstPeriod = 1;
+  for (let index = 0; index < count; index++) {
+    const length = Math.floor(settings.periodsCount / count) + (index < settings.periodsCount % count ? 1 : 0);
+    segments.push({
+      number: index + 1,
+      name: count === 1 ? 'Game' : `${ordinal(index + 1)} ${noun}`,
+      firstPeriod,
+      lastPeriod: firstPeriod + length - 1,
+    });
+    firstPeriod += length;
+  }
+
+  return segments;
+};
+
+export const hasSegments = (settings: GameSettings): boolean => getSegments(settings).length > 1;
+
+export const getSegmentFormatName = (settings: GameSettings): string => {
+  const count = getSegments(settings).length;
+  return SEGMENT_FORMATS.find(format => format.count === count)?.name || `${count} segments`;
+};
+
+// Only set when the game is split into halves or quarters and the period is a regular one
+export const getSegmentForPeriod = (settings: GameSettings, periodNumber: number): GameSegment | undefined => {
+  if (!hasSegments(settings)) return undefined;
+  return getSegments(settings).find(s => periodNumber >= s.firstPeriod && periodNumber <= s.lastPeriod);
+};
+
+// Periods each player has played in the segment, from the shares of periods 1, 2, ... in order
+export const countSegmentPeriods = (
+  segment: GameSegment,
+  periods: PeriodShares[],
+  players: Player[]
+): Map<string, number> => {
+  return countPeriodsPlayed(periods.slice(segment.firstPeriod - 1, segment.lastPeriod), players);
+};
+
+// Even play within a half is the league "equal turns" rule applied to the half's periods: nobody plays
+// another period in it while enough players who have played fewer can fill the lineup
+export const getSegmentRequirements = (
+  settings: GameSettings,
+  previousPeriods: PeriodShares[],
+  presentPlayers: Player[],
+  lineupSize: number
+): LeagueRequirements => {
+  const segment = getSegmentForPeriod(settings, previousPeriods.length + 1);
+  if (!segment || presentPlayers.length === 0) return { mustPlay: [], mustSit: [], isFeasible: true };
+
+  const segmentPeriods = previousPeriods.slice(segment.firstPeriod - 1);
+  const fewest = Math.min(...Array.from(countSegmentPeriods(segment, previousPeriods, presentPlayers).values()));
+  return getLeagueRequirements(
+    [{ type: 'equalBeforeExtra', periods: fewest + 1 }],
+    segmentPeriods,
+    presentPlayers,
+    lineupSize,
+    settings.periodsCount
+  );
+};
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { Player, LeagueRule, PeriodShares } from '../types';
+import { countPeriodsPlayed, getLineupShares } from './periodShares';
+
+export interface LeagueRuleProfile {
+  id: string;
+  name: string;
+  rules: LeagueRule[];
+}
+
+export interface LeagueViolation {
+  rule: LeagueRule;
+  playerId?: string; // unset when the team as a whole can no longer meet the rule
+}
+
+export interface LeagueRequirements {
+  mustPlay: Player[];
+  mustSit: Player[];
+  isFeasible: boolean; // false when the rules cannot all be met next period
+}
+
+// Written rules common in youth leagues; a team starts from one of these and can adjust the numbers
+export const LEAGUE_RULE_PRESETS: LeagueRuleProfile[] = [
+  {
+    id: 'twoOfFirstFour',
+    name: '2 of first 4',
+    rules: [{ type: 'minPeriodsBy', minPeriods: 2, byPeriod: 4 }],
+  },
+  {
+    id: 'twoBeforeThird',
+    name: 'All 2 before a 3rd',
+    rules: [{ type: 'equalBeforeExtra', periods: 2 }],
+  },
+  {
+    id: 'houseLeague',
+    name: 'House league',
+    rules: [
+      { type: 'minPeriodsBy', minPeriods: 2, byPeriod: 4 },
+      { type: 'minPeriodsBy', minPeriods: 4 },
+    ],
+  },
+];
+
+export const CUSTOM_PROFILE_ID = 'custom';
+
+// e.g. 1st, 2nd, 3rd, 11th
+export const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Whole periods still to play to reach a minimum; part of a period short still takes a period
+const periodsShort = (minPeriods: number, played: number): number => Math.max(0, Math.ceil(minPeriods - played));
+
+// Periods each player still has to play to meet a minimum, and the periods left to do it in,
+// as of the start of periodNumber. Nobody is asked for more periods than are left.
+const getMinimumNeeds = (
+  rule: Extract<LeagueRule, { type: 'minPeriodsBy' }>,
+  counts: Map<string, number>,
+  periodNumber: number,
+  periodsCount: number
+): { needs: Map<string, number>; periodsLeft: number } => {
+  const periodsLeft = Math.max(0, (rule.byPeriod ?? periodsCount) - periodNumber + 1);
+  const needs = new Map(Array.from(counts, ([playerId, played]) =>
+    [playerId, Math.min(periodsLeft, periodsShort(rule.minPeriods, played))]
+  ));
+  return { needs, periodsLeft };
+};
+
+const sumNeeds = (needs: Map<string, number>): number =>
+  Array.from(needs.values()).reduce((sum, need) => sum + need, 0);
+
+// Rules this lineup would break if it played the next period: a minimum it makes impossible to reach
+// for the rest of the game (but was reachable before), or an extra period played while someone is short
+export const findLeagueViolations = (
+  rules: LeagueRule[],
+  previousPeriods: PeriodShares[],
+  lineup: Player[],
+  presentPlayers: Player[],
+  periodsCount: number
+): LeagueViolation[] => {
+  if (rules.length === 0) return [];
+
+  const periodNumber = previousPeriods.length + 1;
+  const lineupSize = Math.min(lineup.length, presentPlayers.length);
+  const before = countPeriodsPlayed(previousPeriods, presentPlayers);
+  const after = countPeriodsPlayed([...previousPeriods, getLineupShares(lineup)], presentPlayers);
+  const violations: LeagueViolation[] = [];
+
+  rules.forEach(rule => {
+    if (rule.type === 'minPeriodsBy') {
+      const needBefore = getMinimumNeeds(rule, before, periodNumber, periodsCount);
+      if (needBefore.periodsLeft === 0) return;
+
+      // Compare with what is still needed when there is one period fewer to play
+      const periodsLeftAfter = needBefore.periodsLeft - 1;
+      presentPlayers.forEach(player => {
+        const stillNeeded = periodsShort(rule.minPeriods, after.get(player.id)!);
+        if (needBefore.needs.get(player.id)! > 0 && stillNeeded > periodsLeftAfter) {
+          violations.push({ rule, playerId: player.id });
+        }
+      });
+
+      const totalAfter = presentPlayers.reduce((sum, player) =>
+        sum + Math.min(periodsLeftAfter, periodsShort(rule.minPeriods, after.get(player.id)!)), 0);
+      const fitsBefore = sumNeeds(needBefore.needs) <= needBefore.periodsLeft * lineupSize;
+      if (fitsBefore && totalAfter > periodsLeftAfter * lineupSize) {
+        violations.push({ rule });
+      }
+    } else {
+      const isShort = (player: Player) => before.get(player.id)! < rule.periods;
+      const shortAndBenched = presentPlayers.some(player => isShort(player) && !lineup.some(p => p.id === player.id));
+      if (!shortAndBenched) return;
+
+      lineup.filter(player => before.has(player.id) && !isShort(player)).forEach(player => {
+        violations.push({ rule, playerId: player.id });
+      });
+    }
+  });
+
+  return violations;
+};
+
+// Who has to come on and who has to come off next period to keep every rule reachable
+export const getLeagueRequirements = (
+  rules: LeagueRule[],
+  previousPeriods: PeriodShares[],
+  presentPlayers: Player[],
+  lineupSize: number,
+  periodsCount: number
+): LeagueRequirements => {
+  const periodNumber = previousPeriods.length + 1;
+  const counts = countPeriodsPlayed(previousPeriods, presentPlayers);
+  const mustPlay = new Set<Player>();
+  const mustSit = new Set<Player>();
+
+  rules.forEach(rule => {
+    if (rule.type === 'minPeriodsBy') {
+      const { needs, periodsLeft } = getMinimumNeeds(rule, counts, periodNumber, periodsCount);
+      if (periodsLeft === 0) return;
+
+      // Anyone who has to play every period left to reach the minimum plays now; when the spots left
+      // are exactly enough for everyone still short, nobody else takes one
+      const isTight = sumNeeds(needs) === periodsLeft * lineupSize;
+      presentPlayers.forEach(player => {
+        const need = needs.get(player.id)!;
+        if (need > 0 && need === periodsLeft) mustPlay.add(player);
+        if (need === 0 && isTight) mustSit.add(player);
+      });
+    } else {
+      // Nobody plays an extra period while there are enough players short to fill the lineup;
+      // otherwise everyone short plays
+      const short = presentPlayers.filter(player => counts.get(player.id)! < rule.periods);
+      if (short.length === 0) return;
+
+      if (short.length >= lineupSize) {
+        presentPlayers.filter(player => !short.includes(player)).forEach(player => mustSit.add(player));
+      } else {
+        short.forEach(player => mustPlay.add(player));
+      }
+    }
+  });
+
+  const sitting = presentPlayers.filter(player => mustSit.has(player) && !mustPlay.has(player));
+  return {
+    mustPlay: presentPlayers.filter(player => mustPlay.has(player)),
+    mustSit: sitting,
+    isFeasible: mustPlay.size <= lineupSize && presentPlayers.length - sitting.length >= lineupSize,
+  };
+};
+
+// Fewest periods every player has to have played by lastPeriod (the end of the game by default) under the
+// minimums still open at periodNumber; a minimum that runs past lastPeriod can use the periods after it
+export const getMinimumPeriods = (
+  rules: LeagueRule[],
+  periodNumber: number,
+  periodsCount: number,
+  lastPeriod: number = periodsCount
+): number => {
+  return rules.reduce((most, rule) => {
+    if (rule.type !== 'minPeriodsBy') return most;
+
+    const windowEnd = rule.byPeriod ?? periodsCount;
+    if (windowEnd < periodNumber) return most;
+    return Math.max(most, rule.minPeriods - Math.max(0, windowEnd - lastPeriod));
+  }, 0);
+};
+
+// e.g. "Every player plays at least 2 of the first 4 periods"
+export const describeLeagueRule = (rule: LeagueRule): string => {
+  if (rule.type === 'equalBeforeExtra') {
+    return `No player plays a ${ordinal(rule.periods + 1)} period until everyone has played ${rule.periods}`;
+  }
+  return rule.byPeriod !== undefined
+    ? `Every player plays at least ${rule.minPeriods} of the first ${rule.byPeriod} periods`
+    : `Every player plays at least ${plural(rule.minPeriods, 'period')} in the game`;
+};
+
+export const describeLeagueViolation = (violation: LeagueViolation, players: Player[]): string => {
+  const { rule } = violation;
+  const name = players.find(p => p.id === violation.playerId)?.name || 'Unknown player';
+
+  if (rule.type === 'equalBeforeExtra') {
+    return `${name} would play a ${ordinal(rule.periods + 1)} period before everyone has played ${rule.periods}`;
+  }
+
+  const target = rule.byPeriod !== undefined
+    ? `${rule.minPeriods} of the first ${rule.byPeriod} periods`
+    : `${plural(rule.minPeriods, 'period')} in the game`;
+  return violation.playerId
+    ? `${name} can no longer play ${target}`
+    : `Not enough spots left for everyone to play ${target}`;
+};
+
+// The preset a team's rules came from, or a custom profile once the numbers are changed
+export const getLeagueRuleProfile = (rules: LeagueRule[]): LeagueRuleProfile | undefined => {
+  if (rules.length === 0) return undefined;
+
+  const key = (list: LeagueRule[]) => list.map(describeLeagueRule).join('|');
+  return LEAGUE_RULE_PRESETS.find(preset => key(preset.rules) === key(rules)) ||
+    { id: CUSTOM_PROFILE_ID, name: 'Custom', rules };
+};
\ No newline at end of file
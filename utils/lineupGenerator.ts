@@ -1,33 +1,278 @@
-import { Player, GameSettings, Period, LineupSuggestion } from '../types';
+import { Player, GameSettings, Period, LineupSuggestion, LineupConstraints, LineupScores, PeriodShares } from '../types';
+import { SeededRandom } from './random';
+import { findBrokenRules, getPairingPreference, isKeptApart } from './pairingRules';
+import { findRotationViolations, getRotationRequirements } from './rotationLimits';
+import { meetsPositionRules, scorePositionBalance } from './positionRules';
+import { LeagueViolation, findLeagueViolations, getLeagueRequirements } from './leagueRules';
+import { scoreSkillBalance, scoreSkillStrength } from './skillBalance';
+import { getSegmentForPeriod, getSegmentRequirements } from './gameSegments';
+import { getPeriodShares } from './periodShares';
+
+// How much each part of a lineup's score counts; they should add up to 1
+export interface LineupWeights {
+  playingTime: number;
+  position: number;
+  skillBalance: number; // skill levels close together
+  skillStrength: number; // higher skill levels
+}
+
+export const BALANCED_WEIGHTS: LineupWeights = {
+  playingTime: 0.75,
+  position: 0.15,
+  skillBalance: 0.1,
+  skillStrength: 0,
+};
+
+// Score added per point of soft pairing preference (weights run from -3 to 3)
+const PAIRING_PREFERENCE_WEIGHT = 0.05;
+
+// Score lost per rotation limit broken, for when the limits cannot all be met
+const ROTATION_LIMIT_PENALTY = 0.2;
+
+// Score lost per league rule broken, for when the rules cannot all be met
+const LEAGUE_RULE_PENALTY = 0.3;
+
+// Search steps allowed before falling back to the greedy candidates. Counting steps rather than time keeps
+// the lineup the same for the same seed on any device. Each step is a different group of players, so every
+// roster of up to 15 is searched in full.
+const SEARCH_NODE_BUDGET = 1 << 15;
 
 export class LineupGenerator {
   private players: Player[];
   private settings: GameSettings;
   private existingPeriods: Period[];
-
-  constructor(players: Player[], settings: GameSettings, existingPeriods: Period[] = []) {
+  private previousPeriods: PeriodShares[];
+  private random: SeededRandom;
+  private constraints: LineupConstraints;
+  private weights: LineupWeights;
+  private nodeBudget: number;
+
+  constructor(
+    players: Player[],
+    settings: GameSettings,
+    existingPeriods: Period[] = [],
+    seed: number = 0,
+    constraints: LineupConstraints = { pairingRules: [], rotationLimits: {}, positionRules: [], leagueRules: [] },
+    weights: LineupWeights = BALANCED_WEIGHTS,
+    nodeBudget: number = SEARCH_NODE_BUDGET
+  ) {
     this.players = players.filter(p => p.isPresent);
     this.settings = settings;
     this.existingPeriods = existingPeriods;
+    this.random = new SeededRandom(seed);
+    this.constraints = constraints;
+    this.previousPeriods = getPeriodShares(existingPeriods, constraints);
+    this.weights = weights;
+    this.nodeBudget = nodeBudget;
   }
 
   generateOptimalLineup(): LineupSuggestion {
+    return this.generateRankedLineups(1)[0];
+  }
+
+  // The best few distinct lineups, best first
+  generateRankedLineups(count: number): LineupSuggestion[] {
     const playingTimeTargets = this.calculatePlayingTimeTargets();
-    const candidates = this.generateCandidateLineups();
+    let search = this.searchBestLineup(playingTimeTargets, true, count);
+
+    // Pairing and position rules that cannot all be met (e.g. too few players) are dropped rather than leaving no lineup
+    if (search.isComplete && search.lineups.length === 0) {
+      search = this.searchBestLineup(playingTimeTargets, false, count);
+    }
+
+    if (search.isComplete) {
+      const lineups = search.lineups.length > 0 ? search.lineups : [[]];
+      return lineups.map(lineup => ({ ...this.describeLineup(lineup, playingTimeTargets), isOptimal: true }));
+    }
+
+    // Out of search steps (very large rosters) - rank what the search found so far together with the greedy candidates
+    let candidates = [...this.generateCandidateLineups(), ...search.lineups];
+
+    const withinRules = candidates.filter(lineup =>
+      findBrokenRules(this.constraints.pairingRules, lineup, this.players).length === 0 &&
+      meetsPositionRules(lineup, this.constraints.positionRules) &&
+      findRotationViolations(this.constraints.rotationLimits, this.previousPeriods, lineup, this.players).length === 0 &&
+      this.findLeagueViolations(lineup).length === 0
+    );
+    if (withinRules.length > 0) {
+      candidates = withinRules;
+    }
+    return this.rankLineups(candidates, playingTimeTargets, count).map(suggestion => ({ ...suggestion, isOptimal: false }));
+  }
+
+  // Branch-and-bound over every combination of present players. Players are tried in order of
+  // playing-time need, and a branch is dropped as soon as its best possible score cannot beat the best
+  // lineup found so far. The search stops after the node budget, which covers every roster of up to 15.
+  // With a count above 1 the best few lineups are kept and a branch has to beat the last of them.
+  private searchBestLineup(
+    targets: Map<string, number>,
+    respectHardRules: boolean,
+    count: number
+  ): { lineups: Player[][]; isComplete: boolean } {
+    const lineupSize = Math.min(this.settings.playersOnCourt, this.players.length);
+    const deviation = (player: Player) => Math.abs((targets.get(player.id) || 0) - this.settings.periodDuration);
+
+    // The seed decides which of several equally good lineups is found first
+    const tieBreak = new Map<string, number>();
+    [...this.players].sort((a, b) => a.id.localeCompare(b.id)).forEach(player => {
+      tieBreak.set(player.id, this.random.next());
+    });
+
+    const ordered = [...this.players].sort((a, b) =>
+      deviation(a) - deviation(b) || tieBreak.get(a.id)! - tieBreak.get(b.id)!
+    );
+    const deviations = ordered.map(deviation);
+
+    // Highest skill levels still available from each index on, for the strength bound
+    const topSkillsFrom = ordered.map((_, index) =>
+      ordered.slice(index).map(p => p.skillLevel).sort((a, b) => b - a)
+    );
+
+    const rules = this.constraints.pairingRules;
+    const positionRules = this.constraints.positionRules;
+    const maxPreferenceBonus = rules
+      .filter(rule => rule.type === 'prefer' && (rule.weight || 0) > 0)
+      .reduce((sum, rule) => sum + rule.weight! * PAIRING_PREFERENCE_WEIGHT, 0);
+
+    // Rotation limits, league rules and even play within a half or quarter are hard when each can be met
+    // next period, otherwise only scored. Where they disagree the league rule wins.
+    const rotation = getRotationRequirements(this.constraints.rotationLimits, this.previousPeriods, this.players, lineupSize);
+    const league = getLeagueRequirements(
+      this.constraints.leagueRules,
+      this.previousPeriods,
+      this.players,
+      lineupSize,
+      this.settings.periodsCount
+    );
+    const segment = getSegmentRequirements(this.settings, this.previousPeriods, this.players, lineupSize);
+    const enforceRotation = respectHardRules && rotation.isFeasible;
+    const enforceLeague = respectHardRules && league.isFeasible;
+    const enforceSegment = respectHardRules && segment.isFeasible;
+    const mustPlay = [
+      ...(enforceLeague ? league.mustPlay : []),
+      ...(enforceRotation ? rotation.mustPlay : []),
+      ...(enforceSegment ? segment.mustPlay : []),
+    ].filter((player, index, list) => list.indexOf(player) === index);
+    const mustSit = [
+      ...(enforceRotation ? rotation.mustSit : []),
+      ...(enforceLeague ? league.mustSit : []),
+      ...(enforceSegment ? segment.mustSit : []),
+    ].filter(player => !mustPlay.includes(player));
+    const mustPlayIndexes = mustPlay.map(player => ordered.indexOf(player));
+
+    let nodes = 0;
+    let outOfNodes = false;
+    let best: { lineup: Player[]; score: number }[] = [];
+    const scoreToBeat = () => best.length < count ? -Infinity : best[best.length - 1].score;
+    const chosen: Player[] = [];
+
+    const upperBound = (nextIndex: number, deviationSum: number, skillSum: number): number => {
+      const remaining = lineupSize - chosen.length;
+      const bestDeviationSum = deviationSum + deviations.slice(nextIndex, nextIndex + remaining).reduce((sum, d) => sum + d, 0);
+      const bestSkillSum = skillSum + topSkillsFrom[nextIndex].slice(0, remaining).reduce((sum, s) => sum + s, 0);
+
+      const playingTime = Math.max(0, 1 - Math.pow(bestDeviationSum / lineupSize / this.settings.periodDuration, 0.5));
+      const strength = (bestSkillSum / lineupSize - 1) / 4;
+
+      // The widest skill gap already chosen stays in the lineup, and its variance is least with everyone
+      // else halfway between
+      const skills = chosen.map(p => p.skillLevel);
+      const spread = skills.length > 0 ? Math.max(...skills) - Math.min(...skills) : 0;
+      const skillBalance = Math.max(0, 1 - (spread * spread / (2 * lineupSize)) / 4);
+
+      // Position balance is given its full weight
+      return playingTime * this.weights.playingTime +
+        this.weights.position +
+        skillBalance * this.weights.skillBalance +
+        strength * this.weights.skillStrength +
+        maxPreferenceBonus;
+    };
 
-    return this.selectBestLineup(candidates, playingTimeTargets);
+    const search = (nextIndex: number, deviationSum: number, skillSum: number): void => {
+      if (outOfNodes) return;
+      if (++nodes > this.nodeBudget) {
+        outOfNodes = true;
+        return;
+      }
+
+      if (chosen.length === lineupSize) {
+        if (respectHardRules && findBrokenRules(rules, chosen, this.players).length > 0) return;
+        if (mustPlay.some(player => !chosen.includes(player))) return;
+
+        const score = this.evaluateLineup(chosen, targets);
+        if (score > scoreToBeat() + 1e-9) {
+          // Stable sort, so of equal scores the lineup found first stays ahead
+          best = [...best, { lineup: [...chosen], score }].sort((a, b) => b.score - a.score).slice(0, count);
+        }
+        return;
+      }
+
+      if (ordered.length - nextIndex < lineupSize - chosen.length) return;
+      if (mustPlayIndexes.some((index, i) => index < nextIndex && !chosen.includes(mustPlay[i]))) return;
+      if (upperBound(nextIndex, deviationSum, skillSum) <= scoreToBeat() + 1e-9) return;
+
+      for (let index = nextIndex; index <= ordered.length - (lineupSize - chosen.length); index++) {
+        const player = ordered[index];
+        if (respectHardRules && isKeptApart(rules, chosen, player)) continue;
+        if (mustSit.includes(player)) continue;
+        if (respectHardRules && !meetsPositionRules([...chosen, player], positionRules, lineupSize - chosen.length - 1)) continue;
+
+        chosen.push(player);
+        search(index + 1, deviationSum + deviations[index], skillSum + player.skillLevel);
+        chosen.pop();
+        if (outOfNodes) return;
+      }
+    };
+
+    if (lineupSize > 0) {
+      search(0, 0, 0);
+    }
+
+    return { lineups: best.map(entry => entry.lineup), isComplete: !outOfNodes };
   }
 
   private calculatePlayingTimeTargets(): Map<string, number> {
+    const segment = getSegmentForPeriod(this.settings, this.existingPeriods.length + 1);
+    if (segment) return this.calculateSegmentTargets(segment.firstPeriod, segment.lastPeriod);
+
     const totalGameTime = this.settings.periodsCount * this.settings.periodDuration;
     const presentPlayers = this.players.length;
     const playersPerPeriod = this.settings.playersOnCourt;
 
     const targetTimePerPlayer = (totalGameTime * playersPerPeriod) / presentPlayers;
 
+    // Season debt and late-arrival catch-up move a player's target up or down
+    const adjustments = this.constraints.fairShareAdjustments || {};
     const targets = new Map<string, number>();
     this.players.forEach(player => {
-      targets.set(player.id, targetTimePerPlayer - player.totalPlayingTime);
+      targets.set(player.id, targetTimePerPlayer - player.totalPlayingTime + (adjustments[player.id] || 0));
+    });
+
+    return targets;
+  }
+
+  // In a game split into halves or quarters the target is the even share of the one under way,
+  // less what the player has played in it, with that share of any fair share adjustment
+  private calculateSegmentTargets(firstPeriod: number, lastPeriod: number): Map<string, number> {
+    const segmentLength = lastPeriod - firstPeriod + 1;
+    const targetTimePerPlayer = (segmentLength * this.settings.periodDuration * this.settings.playersOnCourt) / this.players.length;
+
+    // Minutes are each player's share of the period, so a mid-period substitution gets partial credit
+    const playedInSegment = new Map<string, number>();
+    this.existingPeriods.forEach((period, index) => {
+      if (period.number < firstPeriod || period.number > lastPeriod) return;
+
+      const periodLength = period.actualDuration ?? this.settings.periodDuration;
+      Object.entries(this.previousPeriods[index]).forEach(([playerId, share]) => {
+        playedInSegment.set(playerId, (playedInSegment.get(playerId) || 0) + share * periodLength);
+      });
+    });
+
+    const adjustments = this.constraints.fairShareAdjustments || {};
+    const targets = new Map<string, number>();
+    this.players.forEach(player => {
+      targets.set(player.id, targetTimePerPlayer - (playedInSegment.get(player.id) || 0) +
+        (adjustments[player.id] || 0) * segmentLength / this.settings.periodsCount);
     });
 
     return targets;
@@ -89,13 +334,15 @@ export class LineupGenerator {
 
     // Calculate current lineup stats
     const currentSkillSum = currentLineup.reduce((sum, p) => sum + p.skillLevel, 0);
-    const positions = currentLineup.map(p => p.position);
+    const currentPositionBalance = this.calculatePositionBalance(currentLineup);
 
     // Score each available player
     let bestPlayer = available[0];
     let bestScore = -1;
 
     for (const player of available) {
+      if (isKeptApart(this.constraints.pairingRules, currentLineup, player)) continue;
+
       let score = 0;
 
       // Playing time priority (MUCH higher weight - this is most important)
@@ -103,8 +350,8 @@ export class LineupGenerator {
       const playingTimeScore = maxPlayingTime > 0 ? (maxPlayingTime - player.totalPlayingTime) / maxPlayingTime : 1;
       score += playingTimeScore * 10; // Increased from 3 to 10
 
-      // Position diversity bonus (moderate weight)
-      if (player.position !== 'Any' && !positions.includes(player.position)) {
+      // Position bonus when the player helps meet the position rules (moderate weight)
+      if (this.calculatePositionBalance([...currentLineup, player]) > currentPositionBalance) {
         score += 1.5;
       }
 
@@ -112,7 +359,10 @@ export class LineupGenerator {
       const teamAvgSkill = this.players.reduce((sum, p) => sum + p.skillLevel, 0) / this.players.length;
       const targetSkillSum = teamAvgSkill * this.settings.playersOnCourt;
       const skillDifference = Math.abs((currentSkillSum + player.skillLevel) - targetSkillSum);
-      score += (5 - skillDifference) * 0.3; // Reduced from 0.5 to 0.3
+      score += (5 - skillDifference) * 3 * this.weights.skillBalance;
+
+      // Stronger players first when the weights ask for it
+      score += ((player.skillLevel - 1) / 4) * 10 * this.weights.skillStrength;
 
       if (score > bestScore) {
         bestScore = score;
@@ -123,33 +373,60 @@ export class LineupGenerator {
     return bestPlayer;
   }
 
-  private selectBestLineup(candidates: Player[][], playingTimeTargets: Map<string, number>): LineupSuggestion {
-    let bestLineup = candidates[0];
-    let bestScore = -1;
-
-    for (const lineup of candidates) {
-      const score = this.evaluateLineup(lineup, playingTimeTargets);
-      if (score > bestScore) {
-        bestScore = score;
-        bestLineup = lineup;
-      }
-    }
+  private rankLineups(candidates: Player[][], playingTimeTargets: Map<string, number>, count: number): LineupSuggestion[] {
+    const lineupKey = (lineup: Player[]) => lineup.map(p => p.id).sort().join(',');
+    const distinct = candidates.filter((lineup, index) =>
+      candidates.findIndex(other => lineupKey(other) === lineupKey(lineup)) === index
+    );
+
+    return distinct
+      .map(lineup => ({ lineup, score: this.evaluateLineup(lineup, playingTimeTargets) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map(entry => this.describeLineup(entry.lineup, playingTimeTargets));
+  }
 
+  private describeLineup(lineup: Player[], playingTimeTargets: Map<string, number>): LineupSuggestion {
     return {
-      players: bestLineup,
-      averageSkillLevel: bestLineup.reduce((sum, p) => sum + p.skillLevel, 0) / bestLineup.length,
-      playingTimeBalance: this.calculatePlayingTimeBalance(bestLineup, playingTimeTargets),
-      positionBalance: this.calculatePositionBalance(bestLineup)
+      players: lineup,
+      averageSkillLevel: lineup.reduce((sum, p) => sum + p.skillLevel, 0) / lineup.length,
+      playingTimeBalance: this.calculatePlayingTimeBalance(lineup, playingTimeTargets),
+      positionBalance: this.calculatePositionBalance(lineup),
+      scores: lineup.length > 0 ? this.scoreLineup(lineup, playingTimeTargets) : undefined
     };
   }
 
-  private evaluateLineup(lineup: Player[], playingTimeTargets: Map<string, number>): number {
-    const playingTimeBalance = this.calculatePlayingTimeBalance(lineup, playingTimeTargets);
-    const positionBalance = this.calculatePositionBalance(lineup);
-    const skillBalance = this.calculateSkillBalance(lineup);
+  private scoreLineup(lineup: Player[], playingTimeTargets: Map<string, number>): LineupScores {
+    const scores = {
+      playingTime: this.calculatePlayingTimeBalance(lineup, playingTimeTargets),
+      position: this.calculatePositionBalance(lineup),
+      skillBalance: this.calculateSkillBalance(lineup),
+      skillStrength: this.calculateSkillStrength(lineup),
+    };
+
+    const total = scores.playingTime * this.weights.playingTime +
+      scores.position * this.weights.position +
+      scores.skillBalance * this.weights.skillBalance +
+      scores.skillStrength * this.weights.skillStrength +
+      getPairingPreference(this.constraints.pairingRules, lineup) * PAIRING_PREFERENCE_WEIGHT -
+      findRotationViolations(this.constraints.rotationLimits, this.previousPeriods, lineup, this.players).length * ROTATION_LIMIT_PENALTY -
+      this.findLeagueViolations(lineup).length * LEAGUE_RULE_PENALTY;
 
-    // Heavily prioritize playing time balance - this is most important for house leagues
-    return playingTimeBalance * 0.75 + positionBalance * 0.15 + skillBalance * 0.1;
+    return { ...scores, total };
+  }
+
+  private findLeagueViolations(lineup: Player[]): LeagueViolation[] {
+    return findLeagueViolations(
+      this.constraints.leagueRules,
+      this.previousPeriods,
+      lineup,
+      this.players,
+      this.settings.periodsCount
+    );
+  }
+
+  private evaluateLineup(lineup: Player[], playingTimeTargets: Map<string, number>): number {
+    return this.scoreLineup(lineup, playingTimeTargets).total!;
   }
 
   private calculatePlayingTimeBalance(lineup: Player[], targets: Map<string, number>): number {
@@ -166,39 +443,36 @@ export class LineupGenerator {
   }
 
   private calculatePositionBalance(lineup: Player[]): number {
-    const positions = lineup.map(p => p.position);
-    const uniquePositions = new Set(positions.filter(p => p !== 'Any')).size;
-    const maxPossiblePositions = Math.min(3, lineup.length); // Guard, Forward, Center
-
-    return uniquePositions / maxPossiblePositions;
+    return scorePositionBalance(lineup, this.constraints.positionRules);
   }
 
   private calculateSkillBalance(lineup: Player[]): number {
-    const skills = lineup.map(p => p.skillLevel);
-    const avg = skills.reduce((sum, skill) => sum + skill, 0) / skills.length;
-    const variance = skills.reduce((sum, skill) => sum + Math.pow(skill - avg, 2), 0) / skills.length;
+    return scoreSkillBalance(lineup);
+  }
 
-    // Lower variance is better, normalize to 0-1 scale
-    return Math.max(0, 1 - (variance / 4)); // Max variance is 4 (1 vs 5 skill levels)
+  private calculateSkillStrength(lineup: Player[]): number {
+    return scoreSkillStrength(lineup);
   }
 
   private groupByPosition(players: Player[]): Map<string, Player[]> {
     const groups = new Map<string, Player[]>();
 
     players.forEach(player => {
-      if (!groups.has(player.position)) {
-        groups.set(player.position, []);
+      // Grouped by first choice
+      const position = player.positions[0] || 'Any';
+      if (!groups.has(position)) {
+        groups.set(position, []);
       }
-      groups.get(player.position)!.push(player);
+      groups.get(position)!.push(player);
     });
 
     return groups;
   }
 
-  private shuffleArray(array: Player[], seed: number): void {
-    // Simple shuffle with some deterministic variation
-    for (let i = 0; i < Math.min(3, seed); i++) {
-      const randomIndex = Math.floor(Math.random() * array.length);
+  private shuffleArray(array: Player[], variation: number): void {
+    // Swap a few players to the front so each attempt starts differently
+    for (let i = 0; i < Math.min(3, variation); i++) {
+      const randomIndex = this.random.nextInt(array.length);
       const temp = array[0];
       array[0] = array[randomIndex];
       array[randomIndex] = temp;
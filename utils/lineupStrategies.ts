@@ -0,0 +1,68 @@
+import { Player, GameSettings, Period, LineupSuggestion, LineupStrategyId, LineupConstraints } from '../types';
+import { StrictLineupGenerator } from './strictLineupGenerator';
+import { LineupGenerator, BALANCED_WEIGHTS } from './lineupGenerator';
+
+export interface LineupStrategy {
+  id: LineupStrategyId;
+  name: string;
+  description: string;
+  // The best few distinct lineups, best first; count 1 gives just the suggestion
+  generateLineups(
+    players: Player[],
+    settings: GameSettings,
+    existingPeriods: Period[],
+    seed: number,
+    constraints: LineupConstraints,
+    count: number
+  ): LineupSuggestion[];
+}
+
+export const DEFAULT_LINEUP_STRATEGY: LineupStrategyId = 'strict';
+
+export class LineupStrategyRegistry {
+  private strategies = new Map<LineupStrategyId, LineupStrategy>();
+
+  register(strategy: LineupStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  // Unknown or missing ids fall back to the default so older games keep working
+  get(id?: LineupStrategyId): LineupStrategy {
+    return this.strategies.get(id || DEFAULT_LINEUP_STRATEGY) || this.strategies.get(DEFAULT_LINEUP_STRATEGY)!;
+  }
+
+  list(): LineupStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+}
+
+export const lineupStrategies = new LineupStrategyRegistry();
+
+lineupStrategies.register({
+  id: 'strict',
+  name: 'Strict equal periods',
+  description: 'Whoever has played the fewest periods goes in next',
+  generateLineups: (players, settings, existingPeriods, seed, constraints, count) =>
+    new StrictLineupGenerator(players, settings, existingPeriods, seed, constraints).generateRankedLineups(count),
+});
+
+lineupStrategies.register({
+  id: 'balanced',
+  name: 'Balanced skill',
+  description: 'Evens out playing time while keeping each lineup close to the team average',
+  generateLineups: (players, settings, existingPeriods, seed, constraints, count) =>
+    new LineupGenerator(players, settings, existingPeriods, seed, constraints, BALANCED_WEIGHTS).generateRankedLineups(count),
+});
+
+lineupStrategies.register({
+  id: 'competitive',
+  name: 'Competitive',
+  description: 'Still shares playing time, but leans toward stronger lineups',
+  generateLineups: (players, settings, existingPeriods, seed, constraints, count) =>
+    new LineupGenerator(players, settings, existingPeriods, seed, constraints, {
+      playingTime: 0.5,
+      position: 0.15,
+      skillBalance: 0,
+      skillStrength: 0.35,
+    }).generateRankedLineups(count),
+});
\ No newline at end of file
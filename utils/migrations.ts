@@ -0,0 +1,133 @@
+import { CoachProfile, Game, Period, LineupSuggestion, Player, Position, Team, PlannedPeriod } from '../types';
+
+// Version 1 is everything saved before data was wrapped in an envelope.
+// Bump this whenever a saved type changes shape, and add a migration below.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Saved data is wrapped so a later app version knows which shape it is reading
+export interface VersionedEnvelope<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+export const wrapVersioned = <T>(data: T): VersionedEnvelope<T> => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  data,
+});
+
+// Anything without an envelope predates versioning
+export const unwrapVersioned = (stored: unknown): VersionedEnvelope<unknown> => {
+  if (
+    typeof stored === 'object' && stored !== null &&
+    typeof (stored as VersionedEnvelope<unknown>).schemaVersion === 'number' &&
+    'data' in stored
+  ) {
+    return stored as VersionedEnvelope<unknown>;
+  }
+
+  return { schemaVersion: 1, data: stored };
+};
+
+type Migration = (data: unknown) => unknown;
+
+// Shapes saved by older versions, as far as the migrations need them.
+// Up to version 2 players had a single position before they could list several.
+type LegacyPlayerV2 = Omit<Player, 'positions'> & { position?: Position; positions?: Position[] };
+type LegacyTeamV2 = Omit<Team, 'players'> & { players: LegacyPlayerV2[] };
+type LegacyProfileV2 = Omit<CoachProfile, 'teams'> & { teams: LegacyTeamV2[] };
+type LegacyProfileV1 = Omit<LegacyProfileV2, 'teams'> & { teams?: LegacyTeamV2[] };
+type LegacyPeriodV2 = Omit<Period, 'lineup'> & { lineup: LegacyPlayerV2[] };
+type LegacyPlannedPeriodV2 = Omit<PlannedPeriod, 'players'> & { players: LegacyPlayerV2[] };
+type LegacyGameV2 = Omit<Game, 'roster' | 'periods' | 'rotationPlan'> & {
+  roster: LegacyPlayerV2[];
+  periods: LegacyPeriodV2[];
+  rotationPlan?: LegacyPlannedPeriodV2[];
+};
+type LegacyGameV1 = Omit<LegacyGameV2, 'periods'> & { periods?: LegacyPeriodV2[] };
+type LegacySuggestionV2 = Omit<LineupSuggestion, 'players'> & { players: LegacyPlayerV2[] };
+
+const withPositionList = (player: LegacyPlayerV2): Player => {
+  const { position, positions, ...rest } = player;
+  return { ...rest, positions: Array.isArray(positions) ? positions : [position || 'Any'] };
+};
+
+// Each entry upgrades data saved at that version to the next one
+const PROFILE_MIGRATIONS: { [fromVersion: number]: Migration } = {
+  1: (data): LegacyProfileV2 => {
+    const profile = data as LegacyProfileV1;
+    return { ...profile, teams: profile.teams || [] };
+  },
+  2: (data): CoachProfile => {
+    const profile = data as LegacyProfileV2;
+    return { ...profile, teams: profile.teams.map(team => ({ ...team, players: team.players.map(withPositionList) })) };
+  },
+};
+
+const GAME_MIGRATIONS: { [fromVersion: number]: Migration } = {
+  // Periods saved before stint tracking credit the whole lineup for the time played
+  1: (data): LegacyGameV2 => {
+    const game = data as LegacyGameV1;
+    return {
+      ...game,
+      periods: (game.periods || []).map(period => ({
+        ...period,
+        stints: period.stints || period.lineup.map(player => ({
+          playerId: player.id,
+          startTime: 0,
+          endTime: period.isCompleted ? period.actualDuration ?? game.settings.periodDuration : undefined,
+        })),
+      })),
+      events: game.events || [],
+    };
+  },
+  // Players are copied into the roster, every lineup and the rotation plan
+  2: (data): Game => {
+    const game = data as LegacyGameV2;
+    return {
+      ...game,
+      roster: game.roster.map(withPositionList),
+      periods: game.periods.map(period => ({ ...period, lineup: period.lineup.map(withPositionList) })),
+      rotationPlan: game.rotationPlan?.map(planned => ({ ...planned, players: planned.players.map(withPositionList) })),
+    };
+  },
+};
+
+// The suggestion saved with a checkpoint holds copies of players too
+const SUGGESTION_MIGRATIONS: { [fromVersion: number]: Migration } = {
+  1: (suggestion): unknown => suggestion,
+  2: (data): LineupSuggestion => {
+    const suggestion = data as LegacySuggestionV2;
+    return { ...suggestion, players: suggestion.players.map(withPositionList) };
+  },
+};
+
+const runMigrations = <T>(data: unknown, fromVersion: number, migrations: { [fromVersion: number]: Migration }, kind: string): T => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Saved ${kind} is from a newer version of the app (schema ${fromVersion}, this app reads up to ${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated: unknown = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration for ${kind} from schema ${version} to ${version + 1}`);
+    }
+    migrated = migrate(migrated);
+  }
+
+  return migrated as T;
+};
+
+export const migrateCoachProfile = (profile: unknown, fromVersion: number): CoachProfile => {
+  return runMigrations<CoachProfile>(profile, fromVersion, PROFILE_MIGRATIONS, 'coach profile');
+};
+
+export const migrateGame = (game: unknown, fromVersion: number): Game => {
+  return runMigrations<Game>(game, fromVersion, GAME_MIGRATIONS, 'game');
+};
+
+export const migrateLineupSuggestion = (suggestion: unknown, fromVersion: number): LineupSuggestion => {
+  return runMigrations<LineupSuggestion>(suggestion, fromVersion, SUGGESTION_MIGRATIONS, 'lineup suggestion');
+};
\ No newline at end of file
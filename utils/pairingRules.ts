@@ -0,0 +1,63 @@
+import { Player, PairingRule } from '../types';
+
+export const isHardRule = (rule: PairingRule): boolean => rule.type !== 'prefer';
+
+const inLineup = (lineup: Player[], playerId: string) => lineup.some(p => p.id === playerId);
+
+// A together rule only applies when both players are here; an apart rule whenever both are on court
+export const breaksRule = (rule: PairingRule, lineup: Player[], presentPlayers: Player[]): boolean => {
+  const [a, b] = rule.playerIds;
+
+  if (rule.type === 'apart') {
+    return inLineup(lineup, a) && inLineup(lineup, b);
+  }
+  if (rule.type === 'together') {
+    const bothPresent = inLineup(presentPlayers, a) && inLineup(presentPlayers, b);
+    return bothPresent && inLineup(lineup, a) !== inLineup(lineup, b);
+  }
+  return false;
+};
+
+export const findBrokenRules = (rules: PairingRule[], lineup: Player[], presentPlayers: Player[]): PairingRule[] => {
+  return rules.filter(rule => isHardRule(rule) && breaksRule(rule, lineup, presentPlayers));
+};
+
+// Sum of soft preference weights for pairs that are both on court
+export const getPairingPreference = (rules: PairingRule[], lineup: Player[]): number => {
+  return rules
+    .filter(rule => rule.type === 'prefer' && rule.playerIds.every(id => inLineup(lineup, id)))
+    .reduce((sum, rule) => sum + (rule.weight || 0), 0);
+};
+
+// Players who must not join this partial lineup because of an apart rule
+export const isKeptApart = (rules: PairingRule[], lineup: Player[], player: Player): boolean => {
+  return rules.some(rule =>
+    rule.type === 'apart' &&
+    rule.playerIds.includes(player.id) &&
+    rule.playerIds.some(id => id !== player.id && inLineup(lineup, id))
+  );
+};
+
+// Present players who have to come on with this one
+export const getRequiredPartners = (rules: PairingRule[], player: Player, presentPlayers: Player[]): Player[] => {
+  return rules
+    .filter(rule => rule.type === 'together' && rule.playerIds.includes(player.id))
+    .map(rule => presentPlayers.find(p => p.id !== player.id && rule.playerIds.includes(p.id)))
+    .filter((p): p is Player => !!p);
+};
+
+export const describeRule = (rule: PairingRule, players: Player[]): string => {
+  const name = (id: string) => players.find(p => p.id === id)?.name || 'Unknown player';
+  const [a, b] = rule.playerIds.map(name);
+
+  switch (rule.type) {
+    case 'together':
+      return `${a} and ${b} always play together`;
+    case 'apart':
+      return `${a} and ${b} never play together`;
+    case 'prefer':
+      return (rule.weight || 0) >= 0
+        ? `${a} and ${b} preferably together (strength ${rule.weight || 0})`
+        : `${a} and ${b} preferably apart (strength ${-(rule.weight || 0)})`;
+  }
+};
\ No newline at end of file
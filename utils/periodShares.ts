@@ -0,0 +1,33 @@
+import { LineupConstraints, Period, PeriodShares, Player } from '../types';
+
+// A lineup that plays (or is planned to play) the whole period
+export const getLineupShares = (lineup: Player[]): PeriodShares => {
+  const shares: PeriodShares = {};
+  lineup.forEach(player => {
+    shares[player.id] = 1;
+  });
+  return shares;
+};
+
+// Shares of each period in order: from the recorded stints where they were passed in, otherwise
+// the lineup is credited with the whole period (the open period, and periods from older saves)
+export const getPeriodShares = (periods: Period[], constraints: LineupConstraints): PeriodShares[] => {
+  return periods.map(period => constraints.periodShares?.[period.id] || getLineupShares(period.lineup));
+};
+
+export const wasOnCourt = (shares: PeriodShares, playerId: string): boolean => (shares[playerId] || 0) > 0;
+
+// Periods each player has played, counting part of a period for a mid-period substitution.
+// Rounded so shares that make up a whole period count as exactly one.
+export const countPeriodsPlayed = (periods: PeriodShares[], players: Player[]): Map<string, number> => {
+  const counts = new Map(players.map(player => [player.id, 0]));
+  periods.forEach(shares => {
+    Object.entries(shares).forEach(([playerId, share]) => {
+      if (counts.has(playerId)) {
+        counts.set(playerId, counts.get(playerId)! + share);
+      }
+    });
+  });
+  counts.forEach((count, playerId) => counts.set(playerId, Math.round(count * 1000) / 1000));
+  return counts;
+};
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Position } from '../types';
+
+export const PLAYER_POSITIONS: Position[] = ['Guard', 'Forward', 'Center', 'Any'];
+
+// Shared by the player edit form and roster import. Returns the problem, or null when valid.
+// existingJerseyNumbers should not include the player's own number when editing.
+export const validatePlayerFields = (
+  name: string,
+  jerseyNumber: string,
+  existingJerseyNumbers: number[]
+): string | null => {
+  const jerseyNum = parseInt(jerseyNumber);
+
+  if (!name.trim()) {
+    return 'Player name is required';
+  }
+
+  if (!jerseyNumber || isNaN(jerseyNum) || jerseyNum < 1 || jerseyNum > 99) {
+    return 'Please enter a valid jersey number (1-99)';
+  }
+
+  if (existingJerseyNumbers.includes(jerseyNum)) {
+    return `Jersey number ${jerseyNum} is already taken`;
+  }
+
+  return null;
+};
\ No newline at end of file
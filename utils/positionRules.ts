@@ -0,0 +1,130 @@
+import { Player, CourtPosition, PositionRule } from '../types';
+
+export const COURT_POSITIONS: CourtPosition[] = ['Guard', 'Forward', 'Center'];
+
+export interface PositionAssignment {
+  positions: Map<string, CourtPosition>; // player id to the position they fill
+  counts: Map<CourtPosition, number>;
+  breaks: number; // players short of a minimum or over a maximum
+  preferenceRank: number; // how far down their lists players had to go, summed
+}
+
+// Court positions a player can fill with how far down their list each one is.
+// A player with no positions listed can play anywhere.
+const positionChoices = (player: Player): { position: CourtPosition; rank: number }[] => {
+  const listed = player.positions.length > 0 ? player.positions : ['Any' as const];
+  const choices: { position: CourtPosition; rank: number }[] = [];
+
+  listed.forEach((position, rank) => {
+    const options = position === 'Any' ? COURT_POSITIONS : [position];
+    options.forEach(option => {
+      if (!choices.some(c => c.position === option)) {
+        choices.push({ position: option, rank });
+      }
+    });
+  });
+
+  return choices;
+};
+
+// Tries every way of giving each player one of their positions (at most 3^5 for five on court) and
+// keeps the one that breaks the rules least, then suits the players best. openSlots are players still
+// to be added, who may make up a minimum that is not met yet.
+export const assignPositions = (lineup: Player[], rules: PositionRule[], openSlots: number = 0): PositionAssignment => {
+  const choices = lineup.map(positionChoices);
+  const counts = new Map<CourtPosition, number>(COURT_POSITIONS.map(position => [position, 0]));
+  const current: CourtPosition[] = [];
+  let best: PositionAssignment = { positions: new Map(), counts: new Map(), breaks: Infinity, preferenceRank: Infinity };
+
+  const countBreaks = (): number => {
+    let missing = 0;
+    let excess = 0;
+    rules.forEach(rule => {
+      const count = counts.get(rule.position)!;
+      missing += Math.max(0, (rule.min ?? 0) - count);
+      excess += rule.max !== undefined ? Math.max(0, count - rule.max) : 0;
+    });
+    return excess + Math.max(0, missing - openSlots);
+  };
+
+  const assign = (index: number, rankSum: number): void => {
+    if (index === lineup.length) {
+      const breaks = countBreaks();
+      if (breaks < best.breaks || (breaks === best.breaks && rankSum < best.preferenceRank)) {
+        best = {
+          positions: new Map(lineup.map((player, i) => [player.id, current[i]])),
+          counts: new Map(counts),
+          breaks,
+          preferenceRank: rankSum,
+        };
+      }
+      return;
+    }
+
+    for (const choice of choices[index]) {
+      current.push(choice.position);
+      counts.set(choice.position, counts.get(choice.position)! + 1);
+      assign(index + 1, rankSum + choice.rank);
+      counts.set(choice.position, counts.get(choice.position)! - 1);
+      current.pop();
+    }
+  };
+
+  assign(0, 0);
+  return best;
+};
+
+const isRuleMet = (rule: PositionRule, counts: Map<CourtPosition, number>): boolean => {
+  const count = counts.get(rule.position)!;
+  return count >= (rule.min ?? 0) && (rule.max === undefined || count <= rule.max);
+};
+
+export const meetsPositionRules = (lineup: Player[], rules: PositionRule[], openSlots: number = 0): boolean => {
+  return rules.length === 0 || assignPositions(lineup, rules, openSlots).breaks === 0;
+};
+
+// Rules the lineup cannot meet however its players are placed
+export const findBrokenPositionRules = (lineup: Player[], rules: PositionRule[]): PositionRule[] => {
+  if (rules.length === 0) return [];
+
+  const { counts } = assignPositions(lineup, rules);
+  return rules.filter(rule => !isRuleMet(rule, counts));
+};
+
+// One of each position, for teams without rules of their own
+const MIXED_LINEUP_RULES: PositionRule[] = COURT_POSITIONS.map(position => ({ position, min: 1 }));
+
+// How well a lineup meets the position rules (0-1), mostly whether they are met and a little whether
+// players are in their first-choice position. Teams without rules are scored on how many different
+// positions the lineup covers.
+export const scorePositionBalance = (lineup: Player[], rules: PositionRule[]): number => {
+  if (lineup.length === 0) return 0;
+
+  const assignment = assignPositions(lineup, rules.length > 0 ? rules : MIXED_LINEUP_RULES);
+  const rulesScore = rules.length > 0
+    ? rules.filter(rule => isRuleMet(rule, assignment.counts)).length / rules.length
+    : (COURT_POSITIONS.length - assignment.breaks) / Math.min(COURT_POSITIONS.length, lineup.length);
+
+  const firstChoice = lineup.filter(player =>
+    positionChoices(player).find(c => c.position === assignment.positions.get(player.id))?.rank === 0
+  ).length;
+
+  return rulesScore * 0.8 + (firstChoice / lineup.length) * 0.2;
+};
+
+// e.g. "at least 1 Guard", "at most 2 Centers", "1-2 Forwards"
+export const describePositionRule = (rule: PositionRule): string => {
+  const noun = (count: number) => `${rule.position}${count === 1 ? '' : 's'}`;
+
+  if (rule.min !== undefined && rule.max !== undefined) {
+    return rule.min === rule.max ? `exactly ${rule.min} ${noun(rule.min)}` : `${rule.min}-${rule.max} ${noun(rule.max)}`;
+  }
+  if (rule.min !== undefined) {
+    return `at least ${rule.min} ${noun(rule.min)}`;
+  }
+  return `at most ${rule.max} ${noun(rule.max ?? 0)}`;
+};
+
+export const formatPositions = (player: Player): string => {
+  return player.positions.length > 0 ? player.positions.join('/') : 'Any';
+};
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { Player, Position } from '../types';
+import { validatePlayerFields, PLAYER_POSITIONS } from './playerValidation';
+
+export interface RosterImportRow {
+  lineNumber: number; // line in the file, so problems can be reported per row
+  name: string;
+  player: Player | null; // null when the row has errors
+  errors: string[];
+}
+
+// Several positions go in one column, most preferred first, e.g. "Guard/Forward"
+const CSV_HEADER = ['Name', 'Jersey Number', 'Skill Level', 'Positions'];
+
+const escapeField = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportRosterCsv = (players: Player[]): string => {
+  const rows = [...players]
+    .sort((a, b) => a.jerseyNumber - b.jerseyNumber)
+    .map(p => [p.name, String(p.jerseyNumber), String(p.skillLevel), p.positions.join('/')]);
+
+  return [CSV_HEADER, ...rows].map(row => row.map(escapeField).join(',')).join('\n');
+};
+
+// Splits into records, honouring quoted fields. Rows pasted from a spreadsheet come tab separated.
+const parseRecords = (text: string): { lineNumber: number; fields: string[] }[] => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) || '';
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+
+  const records: { lineNumber: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let lineNumber = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim())) {
+      records.push({ lineNumber: recordLine, fields: fields.map(f => f.trim()) });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') lineNumber++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      lineNumber++;
+      recordLine = lineNumber;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+};
+
+interface ColumnMap {
+  name: number;
+  jersey: number;
+  skill: number;
+  position: number;
+}
+
+// Uses the header row when there is one, otherwise assumes the export's column order
+const findColumns = (fields: string[]): ColumnMap | null => {
+  const find = (pattern: RegExp) => fields.findIndex(f => pattern.test(f));
+  const name = find(/^(player |full )?name$/i);
+  if (name === -1) return null;
+
+  return {
+    name,
+    jersey: find(/jersey|number|^#$|^no\.?$/i),
+    skill: find(/skill|level/i),
+    position: find(/pos/i),
+  };
+};
+
+// Parses and validates every row; bad rows are reported rather than stopping the import.
+// existingJerseyNumbers are numbers already on the roster that imported players must not reuse.
+export const parseRosterCsv = (text: string, existingJerseyNumbers: number[]): RosterImportRow[] => {
+  const records = parseRecords(text);
+  if (records.length === 0) return [];
+
+  const headerColumns = findColumns(records[0].fields);
+  const columns = headerColumns || { name: 0, jersey: 1, skill: 2, position: 3 };
+  const dataRecords = headerColumns ? records.slice(1) : records;
+
+  const takenNumbers = [...existingJerseyNumbers];
+  const importId = Date.now();
+
+  return dataRecords.map(({ lineNumber, fields }, index) => {
+    const value = (column: number) => (column >= 0 ? fields[column] || '' : '');
+    const name = value(columns.name);
+    const jerseyNumber = value(columns.jersey);
+    const skillText = value(columns.skill);
+    const positionText = value(columns.position);
+    const errors: string[] = [];
+
+    const fieldError = validatePlayerFields(name, jerseyNumber, takenNumbers);
+    if (fieldError) {
+      errors.push(fieldError);
+    }
+
+    // Skill and position are optional, like in the edit form
+    const skillLevel = skillText ? Number(skillText) : 3;
+    if (!Number.isInteger(skillLevel) || skillLevel < 1 || skillLevel > 5) {
+      errors.push(`Skill level must be 1-5, got "${skillText}"`);
+    }
+
+    const positionNames = positionText ? positionText.split(/[/;|]/).map(p => p.trim()).filter(p => p) : ['Any'];
+    const positions = positionNames
+      .map(name => PLAYER_POSITIONS.find(p => p.toLowerCase() === name.toLowerCase()))
+      .filter((p, i, all): p is Position => !!p && all.indexOf(p) === i);
+    const unknownPositions = positionNames.filter(name => !PLAYER_POSITIONS.some(p => p.toLowerCase() === name.toLowerCase()));
+    if (unknownPositions.length > 0) {
+      errors.push(`Position must be one of ${PLAYER_POSITIONS.join(', ')}, got "${unknownPositions.join('/')}"`);
+    }
+
+    if (errors.length > 0) {
+      return { lineNumber, name, player: null, errors };
+    }
+
+    const jerseyNum = parseInt(jerseyNumber);
+    takenNumbers.push(jerseyNum);
+
+    return {
+      lineNumber,
+      name,
+      player: {
+        id: `player-${importId}-${index}`,
+        name: name.trim(),
+        jerseyNumber: jerseyNum,
+        skillLevel,
+        positions,
+        isPresent: false,
+        totalPlayingTime: 0,
+      },
+      errors,
+    };
+  });
+};
\ No newline at end of file
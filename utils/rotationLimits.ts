@@ -0,0 +1,95 @@
+import { Player, PeriodShares, RotationLimits } from '../types';
+import { wasOnCourt } from './periodShares';
+
+export interface RotationViolation {
+  playerId: string;
+  type: 'sitting' | 'playing';
+  periods: number; // length of the run, counting the new lineup
+}
+
+export interface RotationRequirements {
+  mustPlay: Player[]; // longest wait first
+  mustSit: Player[];
+  isFeasible: boolean; // false when the limits cannot all be met next period
+}
+
+const isLimited = (limit?: number): limit is number => !!limit && limit > 0;
+
+export const hasRotationLimits = (limits: RotationLimits): boolean =>
+  isLimited(limits.maxConsecutiveBench) || isLimited(limits.maxConsecutivePlay);
+
+// Periods in a row the player has played or sat, counting back from the last one.
+// Any time on court counts as playing the period.
+export const getStreak = (previousPeriods: PeriodShares[], playerId: string): { playing: number; sitting: number } => {
+  let playing = 0;
+  let sitting = 0;
+
+  for (let index = previousPeriods.length - 1; index >= 0; index--) {
+    const isPlaying = wasOnCourt(previousPeriods[index], playerId);
+    if (isPlaying && sitting === 0) {
+      playing++;
+    } else if (!isPlaying && playing === 0) {
+      sitting++;
+    } else {
+      break;
+    }
+  }
+
+  return { playing, sitting };
+};
+
+// Limits this lineup would break if it played the next period
+export const findRotationViolations = (
+  limits: RotationLimits,
+  previousPeriods: PeriodShares[],
+  lineup: Player[],
+  presentPlayers: Player[]
+): RotationViolation[] => {
+  const violations: RotationViolation[] = [];
+
+  presentPlayers.forEach(player => {
+    const streak = getStreak(previousPeriods, player.id);
+    const isPlaying = lineup.some(p => p.id === player.id);
+
+    if (isPlaying && isLimited(limits.maxConsecutivePlay) && streak.playing + 1 > limits.maxConsecutivePlay) {
+      violations.push({ playerId: player.id, type: 'playing', periods: streak.playing + 1 });
+    }
+    if (!isPlaying && isLimited(limits.maxConsecutiveBench) && streak.sitting + 1 > limits.maxConsecutiveBench) {
+      violations.push({ playerId: player.id, type: 'sitting', periods: streak.sitting + 1 });
+    }
+  });
+
+  return violations;
+};
+
+// Who has to come on and who has to come off next period to stay within the limits
+export const getRotationRequirements = (
+  limits: RotationLimits,
+  previousPeriods: PeriodShares[],
+  presentPlayers: Player[],
+  lineupSize: number
+): RotationRequirements => {
+  const streaks = new Map(presentPlayers.map(player => [player.id, getStreak(previousPeriods, player.id)]));
+
+  const mustPlay = isLimited(limits.maxConsecutiveBench)
+    ? presentPlayers
+      .filter(p => streaks.get(p.id)!.sitting >= limits.maxConsecutiveBench!)
+      .sort((a, b) => streaks.get(b.id)!.sitting - streaks.get(a.id)!.sitting)
+    : [];
+  const mustSit = isLimited(limits.maxConsecutivePlay)
+    ? presentPlayers.filter(p => streaks.get(p.id)!.playing >= limits.maxConsecutivePlay!)
+    : [];
+
+  return {
+    mustPlay,
+    mustSit,
+    isFeasible: mustPlay.length <= lineupSize && presentPlayers.length - mustSit.length >= lineupSize,
+  };
+};
+
+export const describeViolation = (violation: RotationViolation, players: Player[]): string => {
+  const name = players.find(p => p.id === violation.playerId)?.name || 'Unknown player';
+  return violation.type === 'sitting'
+    ? `${name} sits ${violation.periods} periods in a row`
+    : `${name} plays ${violation.periods} periods in a row`;
+};
\ No newline at end of file
@@ -0,0 +1,351 @@
+import { Player, GameSettings, Period, PlannedPeriod, LineupConstraints, PeriodShares } from '../types';
+import { findBrokenRules, getPairingPreference } from './pairingRules';
+import { findRotationViolations, getRotationRequirements, hasRotationLimits } from './rotationLimits';
+import { findBrokenPositionRules, scorePositionBalance } from './positionRules';
+import { findLeagueViolations, getLeagueRequirements, getMinimumPeriods } from './leagueRules';
+import { GameSegment, countSegmentPeriods, getSegmentForPeriod, getSegments, hasSegments } from './gameSegments';
+import { countPeriodsPlayed, getLineupShares, getPeriodShares, wasOnCourt } from './periodShares';
+
+export class RotationPlanner {
+  private players: Player[];
+  private settings: GameSettings;
+  private existingPeriods: Period[];
+  private constraints: LineupConstraints;
+
+  constructor(
+    players: Player[],
+    settings: GameSettings,
+    existingPeriods: Period[] = [],
+    constraints: LineupConstraints = { pairingRules: [], rotationLimits: {}, positionRules: [], leagueRules: [] }
+  ) {
+    this.players = players.filter(p => p.isPresent).sort((a, b) => a.id.localeCompare(b.id));
+    this.settings = settings;
+    this.existingPeriods = existingPeriods;
+    this.constraints = constraints;
+  }
+
+  // Plans every remaining regular period. Periods already started are treated as fixed,
+  // so calling this again after an attendance change or a lineup override re-plans the rest.
+  planRemainingPeriods(): PlannedPeriod[] {
+    const firstPeriodNumber = this.existingPeriods.length + 1;
+    const remainingPeriods = this.settings.periodsCount - this.existingPeriods.length;
+    const lineupSize = Math.min(this.settings.playersOnCourt, this.players.length);
+
+    if (remainingPeriods <= 0 || lineupSize === 0) return [];
+
+    const periodCounts = this.calculatePeriodCounts();
+    const lineups = this.planSegments(periodCounts, firstPeriodNumber, lineupSize);
+    this.improveLineups(lineups, firstPeriodNumber);
+
+    // Project period counts forward so each planned period reports its balance
+    const projectedCounts = new Map(periodCounts);
+    return lineups.map((lineup, index) => {
+      lineup.forEach(player => {
+        projectedCounts.set(player.id, (projectedCounts.get(player.id) || 0) + 1);
+      });
+
+      return {
+        number: firstPeriodNumber + index,
+        players: lineup,
+        averageSkillLevel: lineup.reduce((sum, p) => sum + p.skillLevel, 0) / lineup.length,
+        playingTimeBalance: this.calculateRotationBalance(projectedCounts),
+        positionBalance: this.calculatePositionBalance(lineup)
+      };
+    });
+  }
+
+  // Every started period counts - the open one is already on the floor
+  private calculatePeriodCounts(): Map<string, number> {
+    return countPeriodsPlayed(this.getHistory(), this.players);
+  }
+
+  // Shares of the periods already started, with part of a period for a mid-period substitution
+  private getHistory(): PeriodShares[] {
+    return getPeriodShares(this.existingPeriods, this.constraints);
+  }
+
+  // Without halves or quarters the rest of the game is planned in one go. With them each one is planned
+  // in turn: periods are shared out evenly within it, and game totals decide who gets any spare ones.
+  private planSegments(periodCounts: Map<string, number>, firstPeriodNumber: number, lineupSize: number): Player[][] {
+    const isSplit = hasSegments(this.settings);
+    const counts = new Map(periodCounts);
+    const lineups: Player[][] = [];
+
+    getSegments(this.settings)
+      .filter(segment => segment.lastPeriod >= firstPeriodNumber)
+      .forEach(segment => {
+        const start = Math.max(segment.firstPeriod, firstPeriodNumber);
+        const periods = segment.lastPeriod - start + 1;
+        const segmentCounts = isSplit
+          ? countSegmentPeriods(segment, [...this.getHistory(), ...lineups.map(getLineupShares)], this.players)
+          : undefined;
+
+        const quotas = this.calculateQuotas(counts, segmentCounts, segment, start, periods, lineupSize);
+        lineups.push(...this.assignPeriods(quotas, periods, lineupSize, lineups));
+        quotas.forEach((quota, playerId) => counts.set(playerId, counts.get(playerId)! + quota));
+      });
+
+    return lineups;
+  }
+
+  // Hands out the segment's court slots one at a time to whoever would end it with the fewest periods
+  // in it, then the fewest in the game, which gives the most even totals possible
+  private calculateQuotas(
+    periodCounts: Map<string, number>,
+    segmentCounts: Map<string, number> | undefined,
+    segment: GameSegment,
+    firstPeriod: number,
+    remainingPeriods: number,
+    lineupSize: number
+  ): Map<string, number> {
+    const quotas = new Map<string, number>();
+    this.players.forEach(player => quotas.set(player.id, 0));
+    const segmentFor = (player: Player) => segmentCounts ? segmentCounts.get(player.id)! + quotas.get(player.id)! : 0;
+
+    // Fair share adjustments (season debt, late-arrival catch-up) count toward the total, in periods
+    const adjustments = this.constraints.fairShareAdjustments || {};
+    const totalFor = (player: Player) =>
+      periodCounts.get(player.id)! + quotas.get(player.id)! - (adjustments[player.id] || 0) / this.settings.periodDuration;
+
+    // League minimums come first: anyone short of one by the end of the segment gets the next slot
+    const minimum = getMinimumPeriods(this.constraints.leagueRules, firstPeriod, this.settings.periodsCount, segment.lastPeriod);
+
+    for (let slot = 0; slot < remainingPeriods * lineupSize; slot++) {
+      const eligible = this.players.filter(p => quotas.get(p.id)! < remainingPeriods);
+      const short = eligible.filter(p => periodCounts.get(p.id)! + quotas.get(p.id)! < minimum);
+
+      const next = (short.length > 0 ? short : eligible).reduce((best, current) => {
+        const bestSegment = segmentFor(best);
+        const currentSegment = segmentFor(current);
+        if (currentSegment !== bestSegment) {
+          return currentSegment < bestSegment ? current : best;
+        }
+
+        const bestTotal = totalFor(best);
+        const currentTotal = totalFor(current);
+
+        if (currentTotal !== bestTotal) {
+          return currentTotal < bestTotal ? current : best;
+        }
+
+        // Ties go to whoever has had less court time so far
+        return current.totalPlayingTime < best.totalPlayingTime ? current : best;
+      });
+
+      quotas.set(next.id, quotas.get(next.id)! + 1);
+    }
+
+    return quotas;
+  }
+
+  private assignPeriods(quotas: Map<string, number>, remainingPeriods: number, lineupSize: number, plannedBefore: Player[][]): Player[][] {
+    const quotasLeft = new Map(quotas);
+    const lineups: Player[][] = [];
+
+    for (let index = 0; index < remainingPeriods; index++) {
+      const periodsLeft = remainingPeriods - index;
+
+      // Players whose remaining quota fills every remaining period have to play;
+      // after that the largest remaining quotas go first, which keeps the plan feasible
+      const ranked = [...this.players]
+        .filter(p => quotasLeft.get(p.id)! > 0)
+        .sort((a, b) => quotasLeft.get(b.id)! - quotasLeft.get(a.id)!);
+
+      const cutoffQuota = quotasLeft.get(ranked[lineupSize - 1].id)!;
+      const locked = ranked.filter(p => quotasLeft.get(p.id)! > cutoffQuota || quotasLeft.get(p.id)! === periodsLeft);
+      const tied = ranked.filter(p => !locked.includes(p) && quotasLeft.get(p.id)! === cutoffQuota);
+
+      const previousPeriods = [...this.getHistory(), ...[...plannedBefore, ...lineups].map(getLineupShares)];
+      const lineup = [...locked, ...this.chooseFromTied(tied, locked, lineupSize - locked.length, previousPeriods)];
+
+      lineup.forEach(player => quotasLeft.set(player.id, quotasLeft.get(player.id)! - 1));
+      lineups.push(lineup);
+    }
+
+    return lineups;
+  }
+
+  private chooseFromTied(tied: Player[], locked: Player[], count: number, previousPeriods: PeriodShares[]): Player[] {
+    const previousPeriod = previousPeriods[previousPeriods.length - 1] || {};
+    const rotation = getRotationRequirements(
+      this.constraints.rotationLimits,
+      previousPeriods,
+      this.players,
+      this.settings.playersOnCourt
+    );
+    const league = getLeagueRequirements(
+      this.constraints.leagueRules,
+      previousPeriods,
+      this.players,
+      Math.min(this.settings.playersOnCourt, this.players.length),
+      this.settings.periodsCount
+    );
+
+    // Rest players who were just on the floor, then fill for position mix and skill
+    const ordered = [...tied].sort((a, b) => {
+      const aPlayed = wasOnCourt(previousPeriod, a.id) ? 1 : 0;
+      const bPlayed = wasOnCourt(previousPeriod, b.id) ? 1 : 0;
+      return aPlayed - bPlayed;
+    });
+
+    const chosen: Player[] = [];
+    while (chosen.length < count && ordered.length > 0) {
+      let best = ordered[0];
+      let bestScore = -Infinity;
+
+      for (const player of ordered) {
+        const score = this.scoreLineup([...locked, ...chosen, player])
+          - (wasOnCourt(previousPeriod, player.id) ? 0.5 : 0)
+          + (rotation.mustPlay.includes(player) ? 10 : 0)
+          - (rotation.mustSit.includes(player) ? 10 : 0)
+          + (league.mustPlay.includes(player) ? 20 : 0)
+          - (league.mustSit.includes(player) ? 20 : 0);
+        if (score > bestScore) {
+          bestScore = score;
+          best = player;
+        }
+      }
+
+      chosen.push(best);
+      ordered.splice(ordered.indexOf(best), 1);
+    }
+
+    return chosen;
+  }
+
+  // Swaps players between two periods (which keeps everyone's period total unchanged)
+  // whenever that improves position mix, skill balance and spacing over the whole game.
+  // Swaps stay within a half or quarter so its totals do not change either.
+  // This runs on every attendance change and lineup override, so each pass keeps going after a swap
+  // and only the lineups and rule checks a swap can change are scored again.
+  private improveLineups(lineups: Player[][], firstPeriodNumber: number): void {
+    const maxPasses = 10;
+    const segmentOf = (index: number) => getSegmentForPeriod(this.settings, firstPeriodNumber + index)?.number;
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const history = this.getHistory();
+
+    const lineupScores = lineups.map(lineup => this.scoreLineup(lineup));
+    const getRuleCosts = (from: number, previousCosts: number[]) => {
+      const periods = [...history, ...lineups.map(getLineupShares)];
+      return lineups.map((lineup, index) => index < from
+        ? previousCosts[index]
+        : this.getRuleCost(periods.slice(0, history.length + index), lineup));
+    };
+    let ruleCosts = getRuleCosts(0, []);
+    let score = sum(lineupScores) - this.calculateSpacingPenalty(lineups) * 0.25 - sum(ruleCosts);
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      let improved = false;
+
+      for (let x = 0; x < lineups.length; x++) {
+        for (let y = x + 1; y < lineups.length; y++) {
+          if (segmentOf(x) !== segmentOf(y)) continue;
+
+          const onlyInX = lineups[x].filter(p => !lineups[y].some(q => q.id === p.id));
+          const onlyInY = lineups[y].filter(p => !lineups[x].some(q => q.id === p.id));
+
+          let swapped = false;
+          for (const a of onlyInX) {
+            for (const b of onlyInY) {
+              const lineupX = lineups[x];
+              const lineupY = lineups[y];
+              lineups[x] = lineupX.map(p => p.id === a.id ? b : p);
+              lineups[y] = lineupY.map(p => p.id === b.id ? a : p);
+
+              // Periods before x have the same periods before them, so their rule checks still hold
+              const scoreX = this.scoreLineup(lineups[x]);
+              const scoreY = this.scoreLineup(lineups[y]);
+              const swappedCosts = getRuleCosts(x, ruleCosts);
+              const swappedScore = sum(lineupScores) - lineupScores[x] - lineupScores[y] + scoreX + scoreY -
+                this.calculateSpacingPenalty(lineups) * 0.25 - sum(swappedCosts);
+
+              if (swappedScore > score + 1e-9) {
+                lineupScores[x] = scoreX;
+                lineupScores[y] = scoreY;
+                ruleCosts = swappedCosts;
+                score = swappedScore;
+                improved = true;
+                swapped = true;
+                break;
+              }
+
+              lineups[x] = lineupX;
+              lineups[y] = lineupY;
+            }
+            if (swapped) break;
+          }
+        }
+      }
+
+      if (!improved) return;
+    }
+  }
+
+  // Rotation limits and league rules for one planned period, checked against the periods played and planned
+  // before it. League rules are broken as soon as a minimum can no longer be reached.
+  private getRuleCost(previousPeriods: PeriodShares[], lineup: Player[]): number {
+    const rotationLimits = this.constraints.rotationLimits;
+    const leagueRules = this.constraints.leagueRules;
+
+    const rotationViolations = hasRotationLimits(rotationLimits)
+      ? findRotationViolations(rotationLimits, previousPeriods, lineup, this.players).length
+      : 0;
+    const leagueViolations = leagueRules.length > 0
+      ? findLeagueViolations(leagueRules, previousPeriods, lineup, this.players, this.settings.periodsCount).length
+      : 0;
+
+    return rotationViolations * 10 + leagueViolations * 20;
+  }
+
+  // Quotas fix who plays how often, so pairing and position rules are met where the swaps allow;
+  // each broken hard rule costs far more than any balance gain
+  private scoreLineup(lineup: Player[]): number {
+    const rules = this.constraints.pairingRules;
+    return this.calculatePositionBalance(lineup) * 0.6 +
+      this.calculateSkillBalance(lineup) * 0.4 +
+      getPairingPreference(rules, lineup) * 0.05 -
+      findBrokenRules(rules, lineup, this.players).length * 10 -
+      findBrokenPositionRules(lineup, this.constraints.positionRules).length * 10;
+  }
+
+  // Counts each extra consecutive period a player sits or plays beyond the first
+  private calculateSpacingPenalty(lineups: Player[][]): number {
+    let penalty = 0;
+
+    this.players.forEach(player => {
+      let streak = 0;
+      let lastState: boolean | null = null;
+
+      lineups.forEach(lineup => {
+        const isPlaying = lineup.some(p => p.id === player.id);
+        streak = isPlaying === lastState ? streak + 1 : 1;
+        lastState = isPlaying;
+
+        if (streak > 2) {
+          penalty += 1;
+        }
+      });
+    });
+
+    return penalty;
+  }
+
+  private calculateSkillBalance(lineup: Player[]): number {
+    // Every period should be close to the team's average strength
+    const teamAverage = this.players.reduce((sum, p) => sum + p.skillLevel, 0) / this.players.length;
+    const lineupAverage = lineup.reduce((sum, p) => sum + p.skillLevel, 0) / lineup.length;
+
+    return Math.max(0, 1 - Math.abs(lineupAverage - teamAverage) / 4);
+  }
+
+  private calculatePositionBalance(lineup: Player[]): number {
+    return scorePositionBalance(lineup, this.constraints.positionRules);
+  }
+
+  private calculateRotationBalance(projectedCounts: Map<string, number>): number {
+    const counts = Array.from(projectedCounts.values());
+    const difference = Math.max(...counts) - Math.min(...counts);
+
+    return Math.max(0, 1 - (difference * 0.33));
+  }
+}
\ No newline at end of file
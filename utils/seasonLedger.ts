@@ -0,0 +1,92 @@
+import { Game, Player } from '../types';
+import { GameManager } from './gameManager';
+
+// Running totals for one player over the games they attended this season
+export interface SeasonLedgerEntry {
+  playerId: string;
+  gamesAttended: number;
+  periodsPlayed: number;
+  fairPeriods: number; // the even share of the periods played in those games
+  minutesPlayed: number;
+  fairMinutes: number;
+}
+
+export type SeasonLedger = { [playerId: string]: SeasonLedgerEntry };
+
+// A deficit is paid back over this many games rather than all at once
+export const DEBT_PAYDOWN_GAMES = 3;
+
+// Builds the ledger from archived games. A player's fair share in a game is the court time actually
+// played split evenly between everyone at the game, over the time they were there, plus what the
+// catch-up policy made up for a late arrival; a player who fouled out is held to the time they got.
+export const buildSeasonLedger = (games: Game[]): SeasonLedger => {
+  const ledger: SeasonLedger = {};
+
+  games.forEach(game => {
+    const manager = new GameManager(game);
+    const minutes = new Map<string, number>();
+    const periods = new Map<string, number>();
+    game.periods.filter(p => p.isCompleted).forEach(period => {
+      manager.getStintMinutes(period).forEach((played, playerId) => {
+        minutes.set(playerId, (minutes.get(playerId) || 0) + played);
+      });
+      Object.entries(manager.getPeriodShares(period)).forEach(([playerId, share]) => {
+        periods.set(playerId, (periods.get(playerId) || 0) + share);
+      });
+    });
+
+    manager.getFairShares().forEach((fair, playerId) => {
+      const entry = ledger[playerId] || {
+        playerId,
+        gamesAttended: 0,
+        periodsPlayed: 0,
+        fairPeriods: 0,
+        minutesPlayed: 0,
+        fairMinutes: 0,
+      };
+
+      ledger[playerId] = {
+        ...entry,
+        gamesAttended: entry.gamesAttended + 1,
+        periodsPlayed: entry.periodsPlayed + (periods.get(playerId) || 0),
+        fairPeriods: entry.fairPeriods + fair.periods,
+        minutesPlayed: entry.minutesPlayed + (minutes.get(playerId) || 0),
+        fairMinutes: entry.fairMinutes + fair.minutes,
+      };
+    });
+  });
+
+  return ledger;
+};
+
+// Positive when the player is owed court time, negative when they have had more than their share
+export const getMinutesOwed = (ledger: SeasonLedger, playerId: string): number => {
+  const entry = ledger[playerId];
+  return entry ? entry.fairMinutes - entry.minutesPlayed : 0;
+};
+
+// Extra minutes each player should get this game to work off their debt, at most one period either way
+export const getSeasonCarryover = (
+  ledger: SeasonLedger,
+  players: Player[],
+  periodDuration: number
+): { [playerId: string]: number } => {
+  const carryover: { [playerId: string]: number } = {};
+
+  players.forEach(player => {
+    const share = getMinutesOwed(ledger, player.id) / DEBT_PAYDOWN_GAMES;
+    const clamped = Math.max(-periodDuration, Math.min(periodDuration, share));
+    if (Math.abs(clamped) >= 0.05) {
+      carryover[player.id] = Math.round(clamped * 10) / 10;
+    }
+  });
+
+  return carryover;
+};
+
+// e.g. "owed 3.5 min", "ahead 2 min"
+export const describeMinutesOwed = (minutesOwed: number): string => {
+  const rounded = Math.round(Math.abs(minutesOwed) * 10) / 10;
+  if (rounded === 0) return 'even';
+  return minutesOwed > 0 ? `owed ${rounded} min` : `ahead ${rounded} min`;
+};
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Player } from '../types';
+
+// 1 when every player in the lineup has the same skill level, 0 at the widest possible spread
+export const scoreSkillBalance = (lineup: Player[]): number => {
+  const skills = lineup.map(p => p.skillLevel);
+  const avg = skills.reduce((sum, skill) => sum + skill, 0) / skills.length;
+  const variance = skills.reduce((sum, skill) => sum + Math.pow(skill - avg, 2), 0) / skills.length;
+
+  // Lower variance is better, normalize to 0-1 scale
+  return Math.max(0, 1 - (variance / 4)); // Max variance is 4 (1 vs 5 skill levels)
+};
+
+// 0 for a lineup of skill 1 players, 1 for a lineup of skill 5 players
+export const scoreSkillStrength = (lineup: Player[]): number => {
+  const avg = lineup.reduce((sum, p) => sum + p.skillLevel, 0) / lineup.length;
+  return (avg - 1) / 4;
+};
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { CoachProfile, Team, Game, LineupSuggestion } from '../types';
+import { VersionedEnvelope, CURRENT_SCHEMA_VERSION, wrapVersioned, unwrapVersioned, migrateCoachProfile, migrateGame, migrateLineupSuggestion } from './migrations';
+
+// Minimal key/value contract so the repository can run on AsyncStorage on device
+// and on an in-memory map in tests.
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Everything needed to drop the coach back into GameScreen after a restart.
+// Stored under a single key so the game and the open period are always written together.
+export interface GameCheckpoint {
+  game: Game;
+  currentPeriodId: string | null;
+  lineupSuggestion: LineupSuggestion | null;
+  savedAt: Date;
+}
+
+export interface CoachDataRepository {
+  loadCoachProfile(): Promise<CoachProfile | null>;
+  saveCoachProfile(profile: CoachProfile): Promise<void>;
+  loadTeam(teamId: string): Promise<Team | null>;
+  saveTeam(team: Team): Promise<void>;
+  deleteTeam(teamId: string): Promise<void>;
+  loadCurrentGame(): Promise<Game | null>;
+  saveCurrentGame(game: Game): Promise<void>;
+  clearCurrentGame(): Promise<void>;
+  loadCheckpoint(): Promise<GameCheckpoint | null>;
+  saveCheckpoint(checkpoint: GameCheckpoint): Promise<void>;
+  loadGameHistory(teamId: string): Promise<Game[]>;
+  archiveGame(game: Game): Promise<void>;
+  saveGameHistory(teamId: string, games: Game[]): Promise<void>;
+  deleteGameHistory(teamId: string): Promise<void>;
+}
+
+export const STORAGE_KEYS = {
+  coachProfile: 'houseLeagueCoach:coachProfile',
+  currentGame: 'houseLeagueCoach:currentGame',
+  gameHistory: (teamId: string) => `houseLeagueCoach:gameHistory:${teamId}`,
+  unreadable: (key: string) => `${key}:unreadable`,
+};
+
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+// JSON turns Dates into ISO strings, so every Date field has to be rebuilt on load
+const reviveDate = (value: unknown): Date => {
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+export const reviveTeam = (team: Team): Team => ({
+  ...team,
+  createdAt: reviveDate(team.createdAt),
+  updatedAt: reviveDate(team.updatedAt),
+});
+
+export const reviveGame = (game: Game): Game => ({
+  ...game,
+  date: reviveDate(game.date),
+  endedAt: game.endedAt ? reviveDate(game.endedAt) : undefined,
+});
+
+export const reviveCoachProfile = (profile: CoachProfile): CoachProfile => ({
+  ...profile,
+  teams: (profile.teams || []).map(reviveTeam),
+  subscriptionExpiry: profile.subscriptionExpiry ? reviveDate(profile.subscriptionExpiry) : undefined,
+});
+
+export class StorageRepository implements CoachDataRepository {
+  private backend: StorageBackend;
+  // Set once data from a newer app version is found; nothing is written after that so it is never overwritten
+  private newerDataFound = false;
+
+  constructor(backend: StorageBackend) {
+    this.backend = backend;
+  }
+
+  get isReadOnly(): boolean {
+    return this.newerDataFound;
+  }
+
+  // Coach profile (teams are stored inside the profile)
+  async loadCoachProfile(): Promise<CoachProfile | null> {
+    const stored = await this.readVersioned(STORAGE_KEYS.coachProfile);
+    return stored ? reviveCoachProfile(migrateCoachProfile(stored.data, stored.schemaVersion)) : null;
+  }
+
+  async saveCoachProfile(profile: CoachProfile): Promise<void> {
+    await this.writeJson(STORAGE_KEYS.coachProfile, profile);
+  }
+
+  // Teams
+  async loadTeam(teamId: string): Promise<Team | null> {
+    const profile = await this.loadCoachProfile();
+    return profile?.teams.find(t => t.id === teamId) || null;
+  }
+
+  async saveTeam(team: Team): Promise<void> {
+    const profile = await this.loadCoachProfile();
+    if (!profile) {
+      throw new Error('Cannot save a team before a coach profile has been saved');
+    }
+
+    const exists = profile.teams.some(t => t.id === team.id);
+    await this.saveCoachProfile({
+      ...profile,
+      teams: exists
+        ? profile.teams.map(t => t.id === team.id ? team : t)
+        : [...profile.teams, team],
+    });
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    const profile = await this.loadCoachProfile();
+    if (!profile) return;
+
+    await this.saveCoachProfile({
+      ...profile,
+      teams: profile.teams.filter(t => t.id !== teamId),
+      activeTeamId: profile.activeTeamId === teamId ? undefined : profile.activeTeamId,
+    });
+  }
+
+  // Current game (stored as a checkpoint together with the open period)
+  async loadCurrentGame(): Promise<Game | null> {
+    const checkpoint = await this.loadCheckpoint();
+    return checkpoint ? checkpoint.game : null;
+  }
+
+  async saveCurrentGame(game: Game): Promise<void> {
+    await this.saveCheckpoint({
+      game,
+      currentPeriodId: null,
+      lineupSuggestion: null,
+      savedAt: new Date(),
+    });
+  }
+
+  async loadCheckpoint(): Promise<GameCheckpoint | null> {
+    const stored = await this.readVersioned(STORAGE_KEYS.currentGame);
+    if (!stored) return null;
+
+    // Older saves stored the bare game without the period state
+    const data = stored.data as GameCheckpoint | Game;
+    const checkpoint: GameCheckpoint = 'game' in data
+      ? data
+      : { game: data, currentPeriodId: null, lineupSuggestion: null, savedAt: data.date };
+
+    return {
+      ...checkpoint,
+      game: reviveGame(migrateGame(checkpoint.game, stored.schemaVersion)),
+      lineupSuggestion: checkpoint.lineupSuggestion
+        ? migrateLineupSuggestion(checkpoint.lineupSuggestion, stored.schemaVersion)
+        : null,
+      savedAt: reviveDate(checkpoint.savedAt),
+    };
+  }
+
+  async saveCheckpoint(checkpoint: GameCheckpoint): Promise<void> {
+    await this.writeJson(STORAGE_KEYS.currentGame, checkpoint);
+  }
+
+  async clearCurrentGame(): Promise<void> {
+    this.assertWritable();
+    await this.backend.removeItem(STORAGE_KEYS.currentGame);
+  }
+
+  // Game history (archived games are stored per team, newest first)
+  async loadGameHistory(teamId: string): Promise<Game[]> {
+    const stored = await this.readVersioned(STORAGE_KEYS.gameHistory(teamId));
+    if (!stored) return [];
+
+    return (stored.data as unknown[])
+      .map(game => reviveGame(migrateGame(game, stored.schemaVersion)))
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async archiveGame(game: Game): Promise<void> {
+    const history = await this.loadGameHistory(game.teamId);
+    const archived = [game, ...history.filter(g => g.id !== game.id)];
+
+    await this.writeJson(STORAGE_KEYS.gameHistory(game.teamId), archived);
+  }
+
+  async saveGameHistory(teamId: string, games: Game[]): Promise<void> {
+    await this.writeJson(STORAGE_KEYS.gameHistory(teamId), games);
+  }
+
+  async deleteGameHistory(teamId: string): Promise<void> {
+    this.assertWritable();
+    await this.backend.removeItem(STORAGE_KEYS.gameHistory(teamId));
+  }
+
+  // Helper methods - everything is stored in a versioned envelope and migrated on load
+  private async readVersioned(key: string): Promise<VersionedEnvelope<unknown> | null> {
+    const raw = await this.backend.getItem(key);
+    if (!raw) return null;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      // Unreadable data is copied aside so the app can still start without a later save destroying it
+      await this.backend.setItem(STORAGE_KEYS.unreadable(key), raw);
+      return null;
+    }
+
+    const envelope = unwrapVersioned(parsed);
+    if (envelope.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      this.newerDataFound = true;
+    }
+    return envelope;
+  }
+
+  private assertWritable(): void {
+    if (this.newerDataFound) {
+      throw new Error('Your saved data is from a newer version of the app. Update the app to make changes.');
+    }
+  }
+
+  private async writeJson(key: string, value: unknown): Promise<void> {
+    this.assertWritable();
+    await this.backend.setItem(key, JSON.stringify(wrapVersioned(value)));
+  }
+}
\ No newline at end of file
@@ -1,50 +1,219 @@
-import { Player, GameSettings, Period, LineupSuggestion } from '../types';
+import { Player, GameSettings, Period, LineupSuggestion, LineupConstraints, PeriodShares } from '../types';
+import { SeededRandom, advanceSeed } from './random';
+import { findBrokenRules, getPairingPreference, getRequiredPartners, isKeptApart } from './pairingRules';
+import { findRotationViolations, getRotationRequirements } from './rotationLimits';
+import { meetsPositionRules, scorePositionBalance } from './positionRules';
+import { findLeagueViolations, getLeagueRequirements } from './leagueRules';
+import { countSegmentPeriods, getSegmentForPeriod } from './gameSegments';
+import { scoreSkillBalance, scoreSkillStrength } from './skillBalance';
+import { countPeriodsPlayed, getPeriodShares } from './periodShares';
+
+// Periods played in the current half or quarter are worth more than any game total,
+// so game totals only order players who have played the same number in it
+const SEGMENT_WEIGHT = 1000;
+
+// Period counts include part periods from substitutions, e.g. 2.5
+const formatCount = (count: number): string => String(Math.round(count * 10) / 10);
 
 export class StrictLineupGenerator {
   private players: Player[];
   private settings: GameSettings;
   private existingPeriods: Period[];
+  private seed: number;
+  private random: SeededRandom;
+  private constraints: LineupConstraints;
+  // Why each player ended up on court or on the bench, from the decisions made while filling the lineup
+  private reasons = new Map<string, string>();
+  private playedCounts = new Map<string, number>();
+  private rankCounts = new Map<string, number>();
 
-  constructor(players: Player[], settings: GameSettings, existingPeriods: Period[] = []) {
+  constructor(
+    players: Player[],
+    settings: GameSettings,
+    existingPeriods: Period[] = [],
+    seed: number = 0,
+    constraints: LineupConstraints = { pairingRules: [], rotationLimits: {}, positionRules: [], leagueRules: [] }
+  ) {
     this.players = players.filter(p => p.isPresent);
     this.settings = settings;
     this.existingPeriods = existingPeriods;
+    this.seed = seed;
+    this.random = new SeededRandom(seed);
+    this.constraints = constraints;
+  }
+
+  // Every lineup this strategy gives is equally fair, so the alternatives are the distinct lineups the
+  // next few seeds produce, each carrying its own seed. When the tiebreaks leave no room for the seed
+  // (e.g. before the first period), swaps between equally due players make up the rest; no seed
+  // produces those, so they carry none.
+  generateRankedLineups(count: number): LineupSuggestion[] {
+    const suggestions: LineupSuggestion[] = [];
+    const lineupKey = (players: Player[]) => players.map(p => p.id).sort().join(',');
+    const isNew = (players: Player[]) => !suggestions.some(s => lineupKey(s.players) === lineupKey(players));
+
+    let seed = this.seed;
+    for (let attempt = 0; attempt < count * 5 && suggestions.length < count; attempt++) {
+      this.random = new SeededRandom(seed);
+      const suggestion = this.generateOptimalLineup();
+      if (isNew(suggestion.players)) {
+        suggestions.push({ ...suggestion, seed });
+      }
+      seed = advanceSeed(seed);
+    }
+
+    if (suggestions.length > 0 && suggestions.length < count) {
+      const base = suggestions[0];
+      this.findEqualSwaps(base.players)
+        .filter(isNew)
+        .slice(0, count - suggestions.length)
+        .forEach(lineup => {
+          const playerIn = lineup.find(p => !base.players.includes(p))!;
+          const playerOut = base.players.find(p => !lineup.includes(p))!;
+          suggestions.push({
+            ...this.describeLineup(lineup),
+            reasons: {
+              ...base.reasons,
+              [playerIn.id]: `On court: just as due as ${playerOut.name}, swapped in for this option`,
+              [playerOut.id]: `Benched: swapped out for ${playerIn.name}, who is just as due`,
+            },
+          });
+        });
+    }
+
+    return suggestions;
+  }
+
+  // Lineups one swap away that are just as fair (the player coming on is as due as the one going off)
+  // and break no more rules, best position mix and skill balance first
+  private findEqualSwaps(lineup: Player[]): Player[][] {
+    const counts = this.applySegmentBalance(this.applyFairShareAdjustments(this.calculatePeriodCounts()));
+    const previousPeriods = this.getCompletedPeriods();
+    const rulesBroken = (candidate: Player[]) =>
+      findBrokenRules(this.constraints.pairingRules, candidate, this.players).length +
+      (meetsPositionRules(candidate, this.constraints.positionRules) ? 0 : 1) +
+      findRotationViolations(this.constraints.rotationLimits, previousPeriods, candidate, this.players).length +
+      findLeagueViolations(this.constraints.leagueRules, previousPeriods, candidate, this.players, this.settings.periodsCount).length;
+
+    const allowed = rulesBroken(lineup);
+    const bench = this.players.filter(p => !lineup.includes(p));
+    const swaps: Player[][] = [];
+
+    lineup.forEach(out => {
+      bench
+        .filter(replacement => Math.abs(counts.get(replacement.id)! - counts.get(out.id)!) < 1e-9)
+        .forEach(replacement => {
+          const swapped = lineup.map(p => p === out ? replacement : p);
+          if (rulesBroken(swapped) <= allowed) {
+            swaps.push(swapped);
+          }
+        });
+    });
+
+    const score = (candidate: Player[]) => this.calculatePositionBalance(candidate) + scoreSkillBalance(candidate) * 0.1;
+    return swaps.sort((a, b) => score(b) - score(a));
   }
 
   generateOptimalLineup(): LineupSuggestion {
     // Calculate how many periods each player has played
     const periodCounts = this.calculatePeriodCounts();
+    this.playedCounts = periodCounts;
+    this.rankCounts = this.applySegmentBalance(periodCounts);
+    this.reasons = new Map();
 
     // Generate lineup using strict rotation logic
-    const lineup = this.generateStrictRotationLineup(periodCounts);
+    const lineup = this.generateStrictRotationLineup(this.applySegmentBalance(this.applyFairShareAdjustments(periodCounts)));
+
+    // Everyone gets a reason, even when no choice had to be made (e.g. just enough players)
+    const reasons: { [playerId: string]: string } = {};
+    this.players.forEach(player => {
+      reasons[player.id] = this.reasons.get(player.id) ||
+        (lineup.includes(player) ? `On court: ${this.describePeriodsPlayed(player)}` : 'Benched: the lineup was full');
+    });
+
+    return { ...this.describeLineup(lineup, periodCounts), reasons };
+  }
+
+  private describePeriodsPlayed(player: Player): string {
+    const completed = this.existingPeriods.filter(p => p.isCompleted).length;
+    const played = completed === 0
+      ? 'no periods played yet'
+      : `played ${formatCount(this.playedCounts.get(player.id) || 0)} of ${completed} ${completed === 1 ? 'period' : 'periods'}`;
+    const segment = this.describeSegmentPlayed(player);
+    const summary = segment ? `${played}, ${segment}` : played;
+
+    const adjustment = this.constraints.fairShareAdjustments?.[player.id] || 0;
+    if (Math.abs(adjustment) < 0.05) return summary;
+
+    const minutes = Math.round(Math.abs(adjustment) * 10) / 10;
+    return adjustment > 0
+      ? `${summary}, owed ${minutes} min`
+      : `${summary}, ${minutes} min counted as played`;
+  }
+
+  // e.g. "1 in the 2nd half", once the half under way has a completed period
+  private describeSegmentPlayed(player: Player): string | null {
+    const segment = getSegmentForPeriod(this.settings, this.existingPeriods.length + 1);
+    if (!segment || this.existingPeriods.length < segment.firstPeriod) return null;
+
+    const counts = countSegmentPeriods(segment, this.getCompletedPeriods(), this.players);
+    return `${formatCount(counts.get(player.id) || 0)} in the ${segment.name}`;
+  }
+
+  private describeNames(players: Player[]): string {
+    const names = players.map(p => p.name);
+    return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+
+  private noteBenched(players: Player[], reason: (player: Player) => string): void {
+    players.forEach(player => this.reasons.set(player.id, `Benched: ${reason(player)}`));
+  }
+
+  private describeLineup(lineup: Player[], periodCounts: Map<string, number> = this.calculatePeriodCounts()): LineupSuggestion {
+    const playingTimeBalance = this.calculateRotationBalance(periodCounts, lineup);
+    const positionBalance = this.calculatePositionBalance(lineup);
 
     return {
       players: lineup,
       averageSkillLevel: lineup.reduce((sum, p) => sum + p.skillLevel, 0) / lineup.length,
-      playingTimeBalance: this.calculateRotationBalance(periodCounts, lineup),
-      positionBalance: this.calculatePositionBalance(lineup)
+      playingTimeBalance,
+      positionBalance,
+      scores: lineup.length > 0 ? {
+        playingTime: playingTimeBalance,
+        position: positionBalance,
+        skillBalance: scoreSkillBalance(lineup),
+        skillStrength: scoreSkillStrength(lineup),
+      } : undefined
     };
   }
 
+  // Periods played so far, with part of a period for a mid-period substitution
   private calculatePeriodCounts(): Map<string, number> {
-    const counts = new Map<string, number>();
+    return countPeriodsPlayed(this.getCompletedPeriods(), this.players);
+  }
 
-    // Initialize all players to 0 periods
-    this.players.forEach(player => {
-      counts.set(player.id, 0);
-    });
+  private getCompletedPeriods(): PeriodShares[] {
+    return getPeriodShares(this.existingPeriods.filter(p => p.isCompleted), this.constraints);
+  }
 
-    // Count actual periods played
-    this.existingPeriods.forEach(period => {
-      if (period.isCompleted) {
-        period.lineup.forEach(player => {
-          const current = counts.get(player.id) || 0;
-          counts.set(player.id, current + 1);
-        });
-      }
-    });
+  // In a game split into halves or quarters, players are evened out within the one under way first
+  private applySegmentBalance(counts: Map<string, number>): Map<string, number> {
+    const segment = getSegmentForPeriod(this.settings, this.existingPeriods.length + 1);
+    if (!segment) return counts;
+
+    const segmentCounts = countSegmentPeriods(segment, this.getCompletedPeriods(), this.players);
+    return new Map(Array.from(counts, ([playerId, count]) =>
+      [playerId, (segmentCounts.get(playerId) || 0) * SEGMENT_WEIGHT + count]
+    ));
+  }
 
-    return counts;
+  // Players owed court time (season debt, or less missed time credited after arriving late) count as
+  // having played that much less, so they go in sooner. Only the rotation order uses this; balance is
+  // still reported on the real counts.
+  private applyFairShareAdjustments(periodCounts: Map<string, number>): Map<string, number> {
+    const adjustments = this.constraints.fairShareAdjustments || {};
+    return new Map(Array.from(periodCounts, ([playerId, count]) =>
+      [playerId, count - (adjustments[playerId] || 0) / this.settings.periodDuration]
+    ));
   }
 
   private generateStrictRotationLineup(periodCounts: Map<string, number>): Player[] {
@@ -65,44 +234,188 @@ export class StrictLineupGenerator {
     const lineup: Player[] = [];
     const available = [...sortedPlayers];
 
+    const previousPeriods = this.getCompletedPeriods();
+    const rotation = getRotationRequirements(
+      this.constraints.rotationLimits,
+      previousPeriods,
+      this.players,
+      this.settings.playersOnCourt
+    );
+    const league = getLeagueRequirements(
+      this.constraints.leagueRules,
+      previousPeriods,
+      this.players,
+      Math.min(this.settings.playersOnCourt, this.players.length),
+      this.settings.periodsCount
+    );
+
+    // League rules win over rotation limits where the two disagree
+    const mustSit = (player: Player) =>
+      league.mustSit.includes(player) || (rotation.mustSit.includes(player) && !league.mustPlay.includes(player));
+    const mustPlay = (player: Player) => league.mustPlay.includes(player) || rotation.mustPlay.includes(player);
+
     // Fill lineup with players who have played the least periods
     while (lineup.length < this.settings.playersOnCourt && available.length > 0) {
+      // Players at their consecutive-play limit, or ahead under the league rules, only go in when nobody else is left
+      const rested = available.filter(p => !mustSit(p));
+      const open = rested.length > 0 ? rested : available;
+      if (rested.length > 0) {
+        this.noteBenched(available.filter(p => !rested.includes(p)), player => league.mustSit.includes(player)
+          ? 'the league rules save the spots for players still short of their minimum'
+          : `has played ${this.constraints.rotationLimits.maxConsecutivePlay} periods in a row, the most allowed`);
+      }
+
+      // Pairing rules come before rotation order; if nobody fits them the lineup is filled anyway
+      const fitting = open.filter(p => this.fitsPairingRules(p, lineup, available));
+      const candidates = fitting.length > 0 ? fitting : open;
+      if (fitting.length > 0) {
+        this.noteBenched(open.filter(p => !fitting.includes(p)), player => {
+          const keptApartFrom = lineup.filter(p => isKeptApart(this.constraints.pairingRules, [p], player));
+          return keptApartFrom.length > 0
+            ? `never plays with ${this.describeNames(keptApartFrom)}`
+            : 'a player they always play with could not come on';
+        });
+      }
+
+      // Position rules have to stay reachable with the spots that are left
+      const openSlots = this.settings.playersOnCourt - lineup.length - 1;
+      const placeable = candidates.filter(p => meetsPositionRules([...lineup, p], this.constraints.positionRules, openSlots));
+      const positioned = placeable.length > 0 ? placeable : candidates;
+      if (placeable.length > 0) {
+        this.noteBenched(candidates.filter(p => !placeable.includes(p)), () =>
+          'their positions would leave the lineup short of the position rules');
+      }
+
+      // Players at their consecutive-bench limit, or who need this period to meet the league rules, go in before anyone else
+      const due = positioned.filter(mustPlay);
+      const pool = due.length > 0 ? due : positioned;
+      if (due.length > 0) {
+        this.noteBenched(positioned.filter(p => !due.includes(p)), () => due.some(p => league.mustPlay.includes(p))
+          ? `${this.describeNames(due)} had to go in to meet the league rules`
+          : `${this.describeNames(due)} had reached the bench limit and had to go in`);
+      }
+
       // Find all players tied for minimum periods played
-      const minPeriods = Math.min(...available.map(p => periodCounts.get(p.id) || 0));
-      const minPlayers = available.filter(p => (periodCounts.get(p.id) || 0) === minPeriods);
+      const minPeriods = Math.min(...pool.map(p => periodCounts.get(p.id) || 0));
+      // The seed decides the order among players who are equally due
+      const minPlayers = this.random.shuffle(pool.filter(p => (periodCounts.get(p.id) || 0) === minPeriods));
+      this.noteBenched(pool.filter(p => !minPlayers.includes(p)), player =>
+        `${this.describePeriodsPlayed(player)}, more than the players chosen ahead of them`);
 
       let selectedPlayer: Player;
 
       if (minPlayers.length === 1) {
         // Only one player with minimum periods
         selectedPlayer = minPlayers[0];
+        if (league.mustPlay.includes(selectedPlayer)) {
+          this.reasons.set(selectedPlayer.id, `On court: ${this.describePeriodsPlayed(selectedPlayer)}, needs this period to meet the league rules`);
+        } else if (due.includes(selectedPlayer)) {
+          this.reasons.set(selectedPlayer.id,
+            `On court: has sat ${this.constraints.rotationLimits.maxConsecutiveBench} periods in a row, the most allowed`);
+        } else {
+          this.reasons.set(selectedPlayer.id, `On court: ${this.describePeriodsPlayed(selectedPlayer)}, ${this.describeRank(selectedPlayer)}`);
+        }
       } else {
         // Multiple players tied - use position and skill balancing
-        selectedPlayer = this.selectBestFromTied(minPlayers, lineup);
+        const tiebreak = this.selectBestFromTied(minPlayers, lineup);
+        selectedPlayer = tiebreak.player;
+
+        const others = minPlayers.filter(p => p !== selectedPlayer);
+        this.reasons.set(selectedPlayer.id,
+          `On court: ${this.describePeriodsPlayed(selectedPlayer)}, tied with ${this.describeNames(others)}; won the tiebreak ${tiebreak.decidedBy}`);
+        this.noteBenched(others, player =>
+          `${this.describePeriodsPlayed(player)}, tied with ${selectedPlayer.name}, who won the tiebreak ${tiebreak.decidedBy}`);
       }
 
       lineup.push(selectedPlayer);
       available.splice(available.indexOf(selectedPlayer), 1);
+
+      // Anyone who always plays with the selected player comes on too
+      if (fitting.length > 0) {
+        getRequiredPartners(this.constraints.pairingRules, selectedPlayer, available).forEach(partner => {
+          lineup.push(partner);
+          available.splice(available.indexOf(partner), 1);
+          this.reasons.set(partner.id, `On court: always plays with ${selectedPlayer.name}`);
+        });
+      }
     }
 
-    return lineup;
+    return this.repairPositionRules(lineup, available, periodCounts);
   }
 
-  private selectBestFromTied(tiedPlayers: Player[], currentLineup: Player[]): Player {
-    // Among tied players, prefer position diversity first, then skill balance
-    const currentPositions = currentLineup.map(p => p.position);
+  // Filling spot by spot can still run out of players for a required position
+  // (e.g. the only Guards left were kept apart). One swap with the bench usually fixes it;
+  // the swap that costs the least rotation order is used.
+  private repairPositionRules(lineup: Player[], bench: Player[], periodCounts: Map<string, number>): Player[] {
+    const rules = this.constraints.positionRules;
+    if (meetsPositionRules(lineup, rules)) return lineup;
+
+    let best: { lineup: Player[]; out: Player; replacement: Player } | null = null;
+    let bestCost = Infinity;
 
-    // First, try to find a player with a position we don't have
-    for (const player of tiedPlayers) {
-      if (player.position !== 'Any' && !currentPositions.includes(player.position)) {
-        return player;
+    for (const out of lineup) {
+      for (const replacement of bench) {
+        const swapped = lineup.map(p => p === out ? replacement : p);
+        const cost = (periodCounts.get(replacement.id) || 0) - (periodCounts.get(out.id) || 0);
+        if (cost < bestCost && meetsPositionRules(swapped, rules)) {
+          best = { lineup: swapped, out, replacement };
+          bestCost = cost;
+        }
       }
     }
 
-    // If no position diversity possible, prefer higher skill level
-    return tiedPlayers.reduce((best, current) =>
+    if (!best) return lineup;
+
+    this.reasons.set(best.replacement.id, `On court: brought in for ${best.out.name} to meet the position rules`);
+    this.reasons.set(best.out.id, `Benched: swapped out for ${best.replacement.name} to meet the position rules`);
+    return best.lineup;
+  }
+
+  private fitsPairingRules(player: Player, lineup: Player[], available: Player[]): boolean {
+    const rules = this.constraints.pairingRules;
+    if (isKeptApart(rules, lineup, player)) return false;
+
+    // A present partner who is not available has already been left out of this lineup
+    const missingPartner = getRequiredPartners(rules, player, this.players)
+      .some(partner => !lineup.includes(partner) && !available.includes(partner));
+    if (missingPartner) return false;
+
+    const partners = getRequiredPartners(rules, player, available);
+    const freeSlots = this.settings.playersOnCourt - lineup.length - 1;
+    return partners.length <= freeSlots &&
+      partners.every(partner => !isKeptApart(rules, [...lineup, player], partner));
+  }
+
+  // Also says which step settled it, for the player's reason
+  private selectBestFromTied(tiedPlayers: Player[], currentLineup: Player[]): { player: Player; decidedBy: string } {
+    // Among tied players, soft pairing preferences go first, then position balance, then skill balance
+    const rules = this.constraints.pairingRules;
+    const preferenceOf = (player: Player) =>
+      getPairingPreference(rules, [...currentLineup, player]) - getPairingPreference(rules, currentLineup);
+    if (tiedPlayers.some(p => preferenceOf(p) !== 0)) {
+      const bestPreference = Math.max(...tiedPlayers.map(preferenceOf));
+      tiedPlayers = tiedPlayers.filter(p => preferenceOf(p) === bestPreference);
+      if (tiedPlayers.length === 1) return { player: tiedPlayers[0], decidedBy: 'on a pairing preference' };
+    }
+
+    const balanceOf = (player: Player) => this.calculatePositionBalance([...currentLineup, player]);
+    const bestBalance = Math.max(...tiedPlayers.map(balanceOf));
+    tiedPlayers = tiedPlayers.filter(p => balanceOf(p) === bestBalance);
+    if (tiedPlayers.length === 1) return { player: tiedPlayers[0], decidedBy: 'on position' };
+
+    // Then prefer higher skill level
+    const player = tiedPlayers.reduce((best, current) =>
       current.skillLevel > best.skillLevel ? current : best
     );
+    const isDraw = tiedPlayers.filter(p => p.skillLevel === player.skillLevel).length > 1;
+    return { player, decidedBy: isDraw ? 'by random draw' : 'on skill level' };
+  }
+
+  private describeRank(player: Player): string {
+    const counts = Array.from(this.rankCounts.values());
+    const count = this.rankCounts.get(player.id) || 0;
+    if (count > Math.min(...counts)) return 'the fewest of those left';
+    return counts.filter(c => c === count).length === 1 ? 'the fewest on the team' : 'tied for the fewest on the team';
   }
 
   private calculateRotationBalance(periodCounts: Map<string, number>, proposedLineup: Player[]): number {
@@ -124,11 +437,7 @@ export class StrictLineupGenerator {
   }
 
   private calculatePositionBalance(lineup: Player[]): number {
-    const positions = lineup.map(p => p.position);
-    const uniquePositions = new Set(positions.filter(p => p !== 'Any')).size;
-    const maxPossiblePositions = Math.min(3, lineup.length); // Guard, Forward, Center
-
-    return uniquePositions / maxPossiblePositions;
+    return scorePositionBalance(lineup, this.constraints.positionRules);
   }
 
   // Debug method to see period distribution
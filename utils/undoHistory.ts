@@ -0,0 +1,73 @@
+import { Game, Period, LineupSuggestion } from '../types';
+import { reviveGame } from './storage';
+
+export interface GameSnapshot {
+  label: string; // what the action did, e.g. "Complete period 3"
+  game: Game;
+  currentPeriodId: string | null;
+  lineupSuggestion: LineupSuggestion | null;
+}
+
+// GameManager mutates players and periods in place, so snapshots are deep copies
+const cloneGame = (game: Game): Game => reviveGame(JSON.parse(JSON.stringify(game)));
+
+export const createSnapshot = (
+  label: string,
+  game: Game,
+  currentPeriod: Period | null,
+  lineupSuggestion: LineupSuggestion | null
+): GameSnapshot => ({
+  label,
+  game: cloneGame(game),
+  currentPeriodId: currentPeriod?.id || null,
+  lineupSuggestion: lineupSuggestion ? JSON.parse(JSON.stringify(lineupSuggestion)) : null,
+});
+
+export class UndoHistory {
+  private undoStack: GameSnapshot[] = [];
+  private redoStack: GameSnapshot[] = [];
+  private maxSteps: number;
+
+  constructor(maxSteps: number = 50) {
+    this.maxSteps = maxSteps;
+  }
+
+  // Record the state from just before an action; a new action clears the redo stack
+  record(snapshot: GameSnapshot): void {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > this.maxSteps) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  // Returns the state to restore, keeping the current state so the action can be redone
+  undo(current: GameSnapshot): GameSnapshot | null {
+    const previous = this.undoStack.pop();
+    if (!previous) return null;
+
+    this.redoStack.push({ ...current, label: previous.label });
+    return previous;
+  }
+
+  redo(current: GameSnapshot): GameSnapshot | null {
+    const next = this.redoStack.pop();
+    if (!next) return null;
+
+    this.undoStack.push({ ...current, label: next.label });
+    return next;
+  }
+
+  getUndoLabel(): string | null {
+    return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+  }
+
+  getRedoLabel(): string | null {
+    return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
\ No newline at end of file